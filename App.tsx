@@ -1,103 +1,455 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { DEFAULT_HABITS_TEMPLATE, DAYS_OF_WEEK } from './constants';
-import { Habit, MentalState, DayConfig, MonthData } from './types';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { DAYS_OF_WEEK, TEMPLATE_PACKS } from './constants';
+import {
+  ArchivedHabit,
+  CheckState,
+  EditScope,
+  Habit,
+  HabitFields,
+  HabitKind,
+  HabitRegistry,
+  HabitSchedule,
+  HabitTemplate,
+  ImportMode,
+  MentalState,
+  MetricDefinition,
+  NoteMatch,
+  DayConfig,
+  MonthData,
+  MonthImportPlan,
+  MonthRecord,
+  MonthSnapshot,
+  QuarantinedMonth,
+  UndoHistory,
+  SyncStatus,
+} from './types';
 import { SummaryHeader } from './components/SummaryHeader';
 import { AnalysisChart } from './components/AnalysisChart';
+import { ScheduleEditor } from './components/ScheduleEditor';
+import { MeasureEditor } from './components/MeasureEditor';
+import { ImportPreviewModal } from './components/ImportPreviewModal';
+import { ExportModal } from './components/ExportModal';
+import { YearHeatmap } from './components/YearHeatmap';
+import { ReviewReport } from './components/ReviewReport';
+import { InsightsPanel } from './components/InsightsPanel';
+import { TodayView } from './components/TodayView';
+import { DayNotesDrawer } from './components/DayNotesDrawer';
+import { NotesSearchModal } from './components/NotesSearchModal';
+import { SettingsModal } from './components/SettingsModal';
+import { ProfilesModal } from './components/ProfilesModal';
+import { TemplatesModal } from './components/TemplatesModal';
+import { createTemplate, loadCustomTemplates, saveCustomTemplates } from './services/templates';
+import { ProfileSession } from './components/ProfileGate';
+import { MetricsModal } from './components/MetricsModal';
+import { MetricInput } from './components/MetricInput';
+import { QuantityInput } from './components/QuantityInput';
+import { UndoToast } from './components/UndoToast';
+import { ArchivedHabitsModal } from './components/ArchivedHabitsModal';
+import { EditScopeModal } from './components/EditScopeModal';
+import { collectPreviousMonths, computeStreaks } from './utils/streaks';
+import { getHabitStore } from './services/habitStore';
+import { REGISTRY_DOC, SyncClient, createHttpTransport, createSyncClient } from './services/sync';
+import { BackupFile, applyImportPlan, exportBackup, parseBackup, planImport } from './services/backup';
+import { loadRange } from './services/exports';
+import { searchNotes } from './services/notes';
+import { loadSettings, saveSettings } from './services/settings';
+import { getNotificationStatus, requestNotificationPermission, syncReminders } from './services/reminders';
+import { downloadFile } from './utils/download';
+import { parseTime } from './utils/reminders';
+import { toDateKey, toMonthKey } from './utils/dates';
+import { getCalendarWeekDays, getDayLock, getDaysInMonth, getElapsedDays, getLogicalToday, getWeekNumber } from './utils/dates';
+import { computeDailyStats, getElapsedProgress, sumDailyStats } from './utils/stats';
+import { EMPTY_HISTORY, recordChange, redoChange, undoChange } from './utils/history';
+import { hasNote, setJournal, setNote } from './utils/notes';
+import { getMetricChartData, getMetricFill, getMetricValue, groupMetricsByScale, parseMetricInput, setMetricValue } from './utils/metrics';
+import { CellRange, GridCell, clampCell, countCells, getCellRange, isInRange, moveCell, typeMetricDigit } from './utils/grid';
+import {
+  EMPTY_REGISTRY,
+  addDefinition,
+  addTemplateHabits,
+  archiveDefinition,
+  getEntries,
+  getFields,
+  hasEarlierMonths,
+  listArchivedHabits,
+  removeDefinition,
+  resolveHabits,
+  restoreDefinition,
+  setMetrics,
+  swapDefinitions,
+  updateDefinition,
+} from './utils/registry';
+import {
+  DEFAULT_QUANTITY_TARGET,
+  formatQuantity,
+  getCheckState,
+  getDayCredit,
+  getNextCheckState,
+  getTotalValue,
+  isArchived,
+  isExcused,
+  isQuantityHabit,
+  isQuitHabit,
+  normalizeHabit,
+  setCheckState,
+  setDayDone,
+  setDayValue,
+} from './utils/habits';
+import {
+  DEFAULT_SCHEDULE,
+  describeSchedule,
+  getCreditedChecks,
+  getSchedule,
+  getScheduledDays,
+} from './utils/schedule';
 
-// --- Utils ---
-const getStorageKey = (year: number, month: number) => `habit-tracker-data-${year}-${month}`;
+// Series colours for quantity habits in the amounts chart
+const QUANTITY_COLORS = [
+  { color: '#3b82f6', fill: '#dbeafe' },
+  { color: '#f97316', fill: '#ffedd5' },
+  { color: '#14b8a6', fill: '#ccfbf1' },
+  { color: '#ec4899', fill: '#fce7f3' },
+  { color: '#84cc16', fill: '#ecfccb' },
+];
+
+// What a skipped, excused or slipped cell shows instead of a check
+const SKIP_MARKS: Partial<Record<CheckState, string>> = { skipped: '–', excused: 'E', slipped: '✗' };
 
-const getDaysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+// Verb for undo labels, by the state a cell is set to
+const CHECK_STATE_LABELS: Record<CheckState, string> = {
+  done: 'Check',
+  skipped: 'Skip',
+  excused: 'Excuse',
+  slipped: 'Log slip on',
+  unlogged: 'Clear',
+};
+
+// --- Utils ---
+const formatShortDate = (date: Date) => date.toLocaleString('default', { month: 'short', day: 'numeric' });
 
 const generateEmptyMentalState = (days: number): MentalState[] => 
-  Array.from({ length: days }, (_, i) => ({ day: i + 1, mood: 0, motivation: 0 }));
+  Array.from({ length: days }, (_, i) => ({ day: i + 1, values: {} }));
+
+interface AppProps {
+  session: ProfileSession; // Mounted once per profile, so everything below belongs to it
+}
+
+export default function App({ session }: AppProps) {
+  const { namespace } = session;
+  const habitStore = useMemo(() => getHabitStore(namespace), [namespace]);
+  const [showProfiles, setShowProfiles] = useState(false);
+
+  // --- Settings ---
+  const [settings, setSettings] = useState(() => loadSettings(namespace));
+  const [showSettings, setShowSettings] = useState(false);
+  const [showMetrics, setShowMetrics] = useState(false);
+  const [notificationStatus, setNotificationStatus] = useState(getNotificationStatus);
+  const { weekStart } = settings;
+  // Minutes after midnight a new day starts; until then checks go to the day before
+  const dayStartMinutes = parseTime(settings.dayStart) ?? 0;
+
+  useEffect(() => {
+    saveSettings(settings, namespace);
+  }, [settings, namespace]);
 
-export default function App() {
   // --- Date State ---
-  const [currentDate, setCurrentDate] = useState(() => new Date());
+  const [currentDate, setCurrentDate] = useState(() => getLogicalToday(new Date(), dayStartMinutes));
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth(); // 0-indexed
   const daysInMonth = getDaysInMonth(year, month);
 
   // --- Data State ---
+  // Habit definitions shared by every month; `habits` is the current month resolved from it
+  const [registry, setRegistry] = useState<HabitRegistry>(EMPTY_REGISTRY);
   const [habits, setHabits] = useState<Habit[]>([]);
   const [mentalState, setMentalState] = useState<MentalState[]>([]);
   const [initialized, setInitialized] = useState(false);
+  // Month whose data is currently in state; loads are async, so saves must not
+  // write the previous month's state under the newly selected month
+  const loadedMonthRef = useRef<string | null>(null);
+  // State as it came from the store, so merely opening a month doesn't bump lastUpdated
+  const loadedDataRef = useRef<{ habits: Habit[]; mentalState: MentalState[] } | null>(null);
+  const loadedRegistryRef = useRef<HabitRegistry | null>(null);
+  // Key of the unreadable registry already reported, so it is reported once
+  const reportedRegistryRef = useRef<string | null>(null);
+  // Bumped to re-read the current month after an import
+  const [reloadToken, setReloadToken] = useState(0);
+  // Bumped when sync is about to overwrite the month on screen or the registry. State
+  // loaded before that is stale: saving it would revert the merge, so saves wait for
+  // the reload that follows.
+  const remoteVersionRef = useRef(0);
+  const loadedRemoteVersionRef = useRef(0);
+
+  // Consecutive stored months before the current one (oldest first), used for streaks
+  const [history, setHistory] = useState<MonthRecord[]>([]);
+
+  // Months whose stored data could not be read and was set aside
+  const [quarantined, setQuarantined] = useState<QuarantinedMonth[]>([]);
+
+  // --- Undo State ---
+  // One history per month ("year-month"), kept while navigating between months
+  const [undoHistories, setUndoHistories] = useState<Record<string, UndoHistory>>({});
+  // Label of the destructive change the toast offers to undo
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+  const monthKey = `${year}-${month}`;
+  const undoHistory = undoHistories[monthKey] ?? EMPTY_HISTORY;
+
+  // --- Backup Import State ---
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; backup: BackupFile } | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [importPlans, setImportPlans] = useState<MonthImportPlan[]>([]);
+  const [dataError, setDataError] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+
+  // --- Year View State ---
+  // Phones open on the daily check-in; the month grid needs a wide screen
+  const [view, setView] = useState<'month' | 'year' | 'review' | 'insights' | 'today'>(() =>
+    window.matchMedia('(max-width: 640px)').matches ? 'today' : 'month'
+  );
+  // Day shown in the Today view; always inside the month on screen
+  const [checkInDate, setCheckInDate] = useState(() => getLogicalToday(new Date(), dayStartMinutes));
+  const [heatmapYear, setHeatmapYear] = useState(year);
+  const [yearRecords, setYearRecords] = useState<MonthRecord[]>([]);
+  const [yearLoading, setYearLoading] = useState(false);
+  // Day (0-indexed) picked from the year view, highlighted in the month grid
+  const [highlightedDay, setHighlightedDay] = useState<number | null>(null);
 
   // --- Editing State ---
   const [editingHabitId, setEditingHabitId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editIcon, setEditIcon] = useState('');
+  const [editSchedule, setEditSchedule] = useState<HabitSchedule>(DEFAULT_SCHEDULE);
+  const [editKind, setEditKind] = useState<HabitKind>('boolean');
+  const [editUnit, setEditUnit] = useState('');
+  const [editTarget, setEditTarget] = useState(DEFAULT_QUANTITY_TARGET);
+  // Edit waiting for the user to pick whether earlier months change too
+  const [pendingEdit, setPendingEdit] = useState<{ habitId: string; fields: HabitFields } | null>(null);
   
+  // --- Grid Cursor State ---
+  const gridRef = useRef<HTMLDivElement>(null);
+  const typedDigitsRef = useRef<{ cellKey: string; text: string } | null>(null); // Digits typed into a metric cell
+  const [cursor, setCursor] = useState<GridCell | null>(null);
+  // Other corner of a range selection; null when only the cursor cell is selected
+  const [selectionAnchor, setSelectionAnchor] = useState<GridCell | null>(null);
+  const [selecting, setSelecting] = useState(false); // Shift-drag in progress
+
+  // --- Notes State ---
+  // Day open in the journal / notes drawer, and the habit whose note to focus
+  const [notesDay, setNotesDay] = useState<{ dayIndex: number; habitId?: string } | null>(null);
+  const [showNotesSearch, setShowNotesSearch] = useState(false);
+
+  // --- Template State ---
+  const [templatesMode, setTemplatesMode] = useState<'onboarding' | 'browse' | null>(null);
+  const [customTemplates, setCustomTemplates] = useState(loadCustomTemplates);
+  const onboardingShownRef = useRef(false);
+  // Latest earlier month with data, when the month on screen has none and follows a gap
+  const [carriedFrom, setCarriedFrom] = useState<{ year: number; month: number } | null>(null);
+
   // --- Delete Modal State ---
   const [habitToDelete, setHabitToDelete] = useState<Habit | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
 
   // --- Persistence Logic ---
   
   // Load data when month changes
   useEffect(() => {
+    let cancelled = false;
     setInitialized(false);
-    const key = getStorageKey(year, month);
-    const stored = localStorage.getItem(key);
-
-    if (stored) {
-      // Data exists for this month
-      const parsed: MonthData = JSON.parse(stored);
-      // Ensure arrays match current days in month (in case of corruption or manual editing)
-      const adjustedHabits = parsed.habits.map(h => ({
-        ...h,
-        checks: h.checks.length === daysInMonth ? h.checks : Array(daysInMonth).fill(false).map((_, i) => h.checks[i] || false)
-      }));
-      
-      // Ensure mental state matches days
-      const adjustedMental = Array(daysInMonth).fill(null).map((_, i) => 
-        parsed.mentalState.find(m => m.day === i + 1) || { day: i + 1, mood: 0, motivation: 0 }
-      );
+    loadedMonthRef.current = null;
+    loadedDataRef.current = null;
+    loadedRegistryRef.current = null;
+    const remoteVersion = remoteVersionRef.current;
 
-      setHabits(adjustedHabits);
-      setMentalState(adjustedMental);
-    } else {
-      // No data for this month. Check previous month for habits to carry over.
-      // Logic: Previous month is month - 1. Handle year rollover.
-      const prevDate = new Date(year, month - 1);
-      const prevKey = getStorageKey(prevDate.getFullYear(), prevDate.getMonth());
-      const prevStored = localStorage.getItem(prevKey);
-
-      let initialHabits: Habit[] = [];
-
-      if (prevStored) {
-        // Carry over habits from previous month, reset checks
-        const prevParsed: MonthData = JSON.parse(prevStored);
-        initialHabits = prevParsed.habits.map(h => ({
-          ...h,
-          checks: Array(daysInMonth).fill(false) // All unchecked for new month
-        }));
+    const load = async () => {
+      const storedRegistry = await habitStore.loadRegistry();
+      const unreadableRegistry = await habitStore.getQuarantinedRegistry();
+      const parsed = await habitStore.loadMonth(year, month);
+      if (!cancelled && unreadableRegistry && reportedRegistryRef.current !== unreadableRegistry.key) {
+        reportedRegistryRef.current = unreadableRegistry.key;
+        setDataError(
+          `Your habit list could not be read (${unreadableRegistry.reason}). A copy was kept under ${unreadableRegistry.key}; habits reappear as you add them again.`
+        );
+      }
+
+      if (parsed) {
+        // Data exists for this month
+        // Ensure arrays match current days in month (in case of corruption or manual editing)
+        const adjustedHabits = parsed.habits.map(h => normalizeHabit(h, year, month, daysInMonth, weekStart));
+        
+        // Ensure mental state matches days
+        const adjustedMental = Array(daysInMonth).fill(null).map((_, i) => 
+          parsed.mentalState.find(m => m.day === i + 1) || { day: i + 1, values: {} }
+        );
+
+        if (cancelled) return;
+        setHabits(adjustedHabits);
+        setMentalState(adjustedMental);
+        setCarriedFrom(null);
+        loadedDataRef.current = { habits: adjustedHabits, mentalState: adjustedMental };
       } else {
-        // New user or no history: Use Default Template
-        initialHabits = DEFAULT_HABITS_TEMPLATE.map(h => ({
-          ...h,
-          checks: Array(daysInMonth).fill(false)
-        }));
+        // No data for this month: every habit active in it starts unchecked. Habits come
+        // from the registry, so they carry over from the latest month with data, however
+        // many months were skipped since.
+        const storedMonths = await habitStore.listMonths();
+        const latest = storedMonths.filter(m => m.year * 12 + m.month < year * 12 + month).pop() ?? null;
+        const previous = new Date(year, month - 1, 1);
+        if (cancelled) return;
+        const emptyHabits = resolveHabits(storedRegistry, {}, year, month, weekStart);
+        const emptyMental = generateEmptyMentalState(daysInMonth);
+        setHabits(emptyHabits);
+        setMentalState(emptyMental);
+        // Nothing is stored until the month is edited, so it stays "no data" until then
+        loadedDataRef.current = { habits: emptyHabits, mentalState: emptyMental };
+        setCarriedFrom(latest && (latest.year !== previous.getFullYear() || latest.month !== previous.getMonth()) ? latest : null);
+        // New user: offer the template packs, once per visit
+        if (storedRegistry.habits.length === 0 && storedMonths.length === 0 && !onboardingShownRef.current) {
+          onboardingShownRef.current = true;
+          setTemplatesMode('onboarding');
+        }
       }
+      const previousMonths = await collectPreviousMonths(year, month, habitStore.loadMonth);
+      const quarantinedMonths = await habitStore.listQuarantined();
+      if (cancelled) return;
+      setHistory(previousMonths);
+      setQuarantined(quarantinedMonths);
+      setRegistry(storedRegistry);
+      loadedRegistryRef.current = storedRegistry;
+      loadedMonthRef.current = `${year}-${month}`;
+      loadedRemoteVersionRef.current = remoteVersion;
+      setInitialized(true);
+    };
 
-      setHabits(initialHabits);
+    // Show an empty month rather than hang on the loading screen. Nothing is saved until a
+    // load succeeds, so the empty state can't overwrite what is stored.
+    load().catch(error => {
+      if (cancelled) return;
+      setDataError(`Could not load your habits: ${error instanceof Error ? error.message : error}`);
+      setHabits([]);
       setMentalState(generateEmptyMentalState(daysInMonth));
-    }
-    setInitialized(true);
-  }, [year, month, daysInMonth]);
+      setCarriedFrom(null);
+      setHistory([]);
+      setInitialized(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [year, month, daysInMonth, weekStart, reloadToken]);
 
   // Save data on change
   useEffect(() => {
-    if (!initialized) return;
-    const key = getStorageKey(year, month);
+    if (!initialized || loadedMonthRef.current !== `${year}-${month}`) return;
+    if (loadedRemoteVersionRef.current !== remoteVersionRef.current) return;
+    const loaded = loadedDataRef.current;
+    if (loaded && loaded.habits === habits && loaded.mentalState === mentalState) return;
     const data: MonthData = {
       habits,
       mentalState,
       lastUpdated: Date.now(),
     };
-    localStorage.setItem(key, JSON.stringify(data));
+    habitStore.saveMonth(year, month, data)
+      .then(() => syncClientRef.current?.markChanged(toMonthKey(year, month)))
+      .catch(error => {
+        const monthName = new Date(year, month).toLocaleString('default', { month: 'long', year: 'numeric' });
+        setDataError(`Could not save ${monthName}: ${error instanceof Error ? error.message : error}`);
+      });
   }, [habits, mentalState, year, month, initialized]);
 
+  useEffect(() => {
+    if (!initialized || !loadedRegistryRef.current || registry === loadedRegistryRef.current) return;
+    if (loadedRemoteVersionRef.current !== remoteVersionRef.current) return;
+    // Stamped on save, so sync can tell which device edited habits last
+    habitStore.saveRegistry({ ...registry, lastUpdated: Date.now() })
+      .then(() => syncClientRef.current?.markChanged(REGISTRY_DOC))
+      .catch(error => setDataError(`Could not save your habits: ${error instanceof Error ? error.message : error}`));
+  }, [registry, initialized]);
+
+  // --- Sync ---
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'off' });
+  const syncedMonthRef = useRef<string | null>(null); // Month on screen, as a sync document key
+  const syncClient = useMemo(
+    () =>
+      settings.sync
+        ? createSyncClient({
+            store: habitStore,
+            transport: createHttpTransport(settings.sync),
+            settings: settings.sync,
+            namespace,
+            onStatus: setSyncStatus,
+            onRemoteWrite: key => {
+              if (key === REGISTRY_DOC || key === syncedMonthRef.current) remoteVersionRef.current += 1;
+            },
+            onRemoteChange: keys => {
+              if (!keys.includes(REGISTRY_DOC) && !keys.includes(syncedMonthRef.current ?? '')) return;
+              setUndoHistories({}); // Snapshots from before the merge would silently revert it
+              setReloadToken(t => t + 1);
+            },
+          })
+        : null,
+    [habitStore, namespace, settings.sync]
+  );
+  // Read by the save effects, which must not re-run when sync is switched on or off
+  const syncClientRef = useRef<SyncClient | null>(null);
+
+  useEffect(() => {
+    syncedMonthRef.current = toMonthKey(year, month);
+  }, [year, month]);
+
+  useEffect(() => {
+    syncClientRef.current = syncClient;
+    if (!syncClient) {
+      setSyncStatus({ state: 'off' });
+      return;
+    }
+    return syncClient.start();
+  }, [syncClient]);
+
+  // Keep the service worker's reminders in line with today's checks, and let it show due
+  // ones every minute while the app is open
+  useEffect(() => {
+    if (!initialized || notificationStatus !== 'granted') return;
+    const sync = () =>
+      syncReminders(habitStore, settings, { year, month, data: { habits, mentalState: [], lastUpdated: 0 } })
+        .catch(error => setDataError(`Could not update reminders: ${error instanceof Error ? error.message : error}`));
+    sync();
+    const timer = window.setInterval(sync, 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [initialized, notificationStatus, settings, habits, year, month]);
+
+  // Preview what the selected backup would change whenever the file or mode changes
+  useEffect(() => {
+    if (!pendingImport) return;
+    let cancelled = false;
+    planImport(habitStore, pendingImport.backup, importMode)
+      .then(plans => { if (!cancelled) setImportPlans(plans); })
+      .catch(error => setDataError(`Could not read the backup: ${error.message}`));
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingImport, importMode]);
+
+  // Load the whole year when the year view is open
+  useEffect(() => {
+    if (view !== 'year') return;
+    let cancelled = false;
+    setYearLoading(true);
+    habitStore.loadYear(heatmapYear)
+      .then(records => {
+        if (cancelled) return;
+        setYearRecords(records);
+        setYearLoading(false);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setYearRecords([]);
+        setYearLoading(false);
+        setDataError(`Could not load ${heatmapYear}: ${error instanceof Error ? error.message : error}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, heatmapYear]);
+
   // --- Handlers ---
 
   const handleMonthChange = (offset: number) => {
@@ -105,47 +457,457 @@ export default function App() {
     setCurrentDate(newDate);
     setEditingHabitId(null); // Close edit mode if open
     setHabitToDelete(null); // Close delete modal if open
+    setHighlightedDay(null);
+    setUndoToast(null);
+    setPendingEdit(null);
+    setCursor(null);
+    setSelectionAnchor(null);
+    setNotesDay(null);
+    if (view === 'today') setView('month');
+  };
+
+  // Shows a day in the Today view, switching months when it lies in another one
+  const openCheckIn = (date: Date) => {
+    const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (day.getFullYear() !== year || day.getMonth() !== month) {
+      setCurrentDate(new Date(day.getFullYear(), day.getMonth(), 1));
+      setUndoToast(null);
+      setNotesDay(null);
+    }
+    setCheckInDate(day);
+    setEditingHabitId(null);
+    setView('today');
+  };
+
+  const shiftCheckIn = (offset: number) =>
+    openCheckIn(new Date(checkInDate.getFullYear(), checkInDate.getMonth(), checkInDate.getDate() + offset));
+
+  const openYearView = () => {
+    setHeatmapYear(year);
+    setEditingHabitId(null);
+    setView('year');
+  };
+
+  // Jump from a heatmap cell to its month and highlight the day
+  const selectHeatmapDay = (selectedYear: number, selectedMonth: number, dayIndex: number) => {
+    setCurrentDate(new Date(selectedYear, selectedMonth, 1));
+    setHighlightedDay(dayIndex);
+    setView('month');
   };
 
+  // --- Undo / Redo ---
+
+  // Every edit to the month goes through here so it can be undone. Snapshots hold the
+  // shared registry, so a registry edit drops the other months' histories: undoing there
+  // would silently revert it.
+  const applyChange = (label: string, next: Partial<MonthSnapshot>, coalesceKey?: string) => {
+    setUndoHistories(prev => ({
+      ...(next.registry ? {} : prev),
+      [monthKey]: recordChange(prev[monthKey] ?? EMPTY_HISTORY, label, { registry, habits, mentalState }, coalesceKey),
+    }));
+    if (next.registry) setRegistry(next.registry);
+    if (next.habits) setHabits(next.habits);
+    if (next.mentalState) setMentalState(next.mentalState);
+    setUndoToast(null); // The toast's undo would now revert this change instead
+  };
+
+  const restoreSnapshot = (snapshot: MonthSnapshot) => {
+    setRegistry(snapshot.registry);
+    setHabits(snapshot.habits);
+    setMentalState(snapshot.mentalState);
+    setEditingHabitId(null);
+  };
+
+  const handleUndo = () => {
+    const result = undoChange(undoHistory, { registry, habits, mentalState });
+    if (!result) return;
+    const registryChanged = result.snapshot.registry !== registry;
+    setUndoHistories(prev => ({ ...(registryChanged ? {} : prev), [monthKey]: result.history }));
+    restoreSnapshot(result.snapshot);
+    setUndoToast(null);
+  };
+
+  const handleRedo = () => {
+    const result = redoChange(undoHistory, { registry, habits, mentalState });
+    if (!result) return;
+    const registryChanged = result.snapshot.registry !== registry;
+    setUndoHistories(prev => ({ ...(registryChanged ? {} : prev), [monthKey]: result.history }));
+    restoreSnapshot(result.snapshot);
+  };
+
+  const dismissUndoToast = useCallback(() => setUndoToast(null), []);
+
+  // Views that edit the month on screen
+  const isEditableView = view === 'month' || view === 'today';
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), and Ctrl+Enter to mark today done. Text fields
+  // keep their native undo. Re-registered every render so the handlers see the current state.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || !isEditableView || !initialized) return;
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (key === 'enter') {
+        e.preventDefault();
+        markAllDoneToday();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Why a day of this month can't be checked off right now; notes and the journal stay editable
+  const getLock = (dayIndex: number) =>
+    getDayLock(new Date(year, month, dayIndex + 1), new Date(), dayStartMinutes, settings.yesterdayGraceHours);
+
+  // Sets one habit's state on one day; the goal is recomputed since excused days don't count
+  const setCellState = (habitId: string, dayIndex: number, state: CheckState) => {
+    const habit = habits.find(h => h.id === habitId);
+    if (!habit || getLock(dayIndex)) return;
+    applyChange(
+      `${CHECK_STATE_LABELS[state]} ${habit.name}, day ${dayIndex + 1}`,
+      {
+        habits: habits.map(h =>
+          h.id === habitId ? normalizeHabit(setCheckState(h, dayIndex, state), year, month, daysInMonth, weekStart) : h
+        ),
+      }
+    );
+  };
+
+  // Clicking a check cycles it: not logged → done → skipped → not logged
   const toggleCheck = (habitId: string, dayIndex: number) => {
-    setHabits((prev) =>
-      prev.map((h) => {
-        if (h.id !== habitId) return h;
-        const newChecks = [...h.checks];
-        newChecks[dayIndex] = !newChecks[dayIndex];
-        return { ...h, checks: newChecks };
-      })
+    const habit = habits.find(h => h.id === habitId);
+    if (habit) setCellState(habitId, dayIndex, getNextCheckState(habit, getCheckState(habit, dayIndex)));
+  };
+
+  // Marks a day excused, or clears the excuse again
+  const toggleExcused = (habitId: string, dayIndex: number) => {
+    const habit = habits.find(h => h.id === habitId);
+    if (habit) setCellState(habitId, dayIndex, isExcused(habit, dayIndex) ? 'unlogged' : 'excused');
+  };
+
+  const handleValueChange = (habitId: string, dayIndex: number, value: string) => {
+    const numVal = value === '' ? 0 : Math.max(0, parseFloat(value) || 0);
+    const habit = habits.find(h => h.id === habitId);
+    if (!habit || getLock(dayIndex)) return;
+    applyChange(
+      `Change ${habit.name}, day ${dayIndex + 1}`,
+      { habits: habits.map(h => (h.id === habitId ? setDayValue(h, dayIndex, numVal) : h)) },
+      `value-${habitId}-${dayIndex}`
+    );
+  };
+
+  const handleMentalChange = (dayIndex: number, metric: MetricDefinition, text: string) => {
+    const value = parseMetricInput(metric, text);
+    if (value === undefined || getLock(dayIndex)) return;
+    applyChange(
+      `Change ${metric.name.toLowerCase()}, day ${dayIndex + 1}`,
+      { mentalState: setMetricValue(mentalState, dayIndex, metric.id, value) },
+      `${metric.id}-${dayIndex}`
+    );
+  };
+
+  const handleMetricsChange = (metrics: MetricDefinition[]) => {
+    applyChange('Edit metrics', { registry: setMetrics(registry, metrics) });
+    setShowMetrics(false);
+  };
+
+  // --- Notes Handlers ---
+
+  const handleNoteChange = (habitId: string, dayIndex: number, text: string) => {
+    const habit = habits.find(h => h.id === habitId);
+    if (!habit) return;
+    applyChange(
+      `Note on ${habit.name}, day ${dayIndex + 1}`,
+      { habits: habits.map(h => (h.id === habitId ? setNote(h, dayIndex, text) : h)) },
+      `note-${habitId}-${dayIndex}`
+    );
+  };
+
+  const handleJournalChange = (dayIndex: number, text: string) => {
+    applyChange(`Journal, day ${dayIndex + 1}`, { mentalState: setJournal(mentalState, dayIndex, text) }, `journal-${dayIndex}`);
+  };
+
+  const runNotesSearch = useCallback(
+    (query: string) => searchNotes(habitStore, query, { year, month, data: { habits, mentalState, lastUpdated: 0 } }),
+    [habitStore, year, month, habits, mentalState]
+  );
+
+  // Opens the drawer on the matching day, switching months if needed
+  const selectNoteMatch = (match: NoteMatch) => {
+    if (match.year !== year || match.month !== month) {
+      setCurrentDate(new Date(match.year, match.month, 1));
+      setUndoToast(null);
+      setCursor(null);
+      setSelectionAnchor(null);
+    }
+    if (view === 'today') setCheckInDate(new Date(match.year, match.month, match.dayIndex + 1));
+    else setView('month');
+    setNotesDay({ dayIndex: match.dayIndex, habitId: match.habit?.id });
+    setShowNotesSearch(false);
+  };
+
+  // --- Grid Keyboard / Bulk Handlers ---
+
+  const today = getLogicalToday(new Date(), dayStartMinutes);
+  // Day index of today when this month is on screen
+  const todayIndex = today.getFullYear() === year && today.getMonth() === month ? today.getDate() - 1 : null;
+
+  // Same as clicking the cell: cycles a check, or toggles a quantity between its target and empty
+  const toggleCell = (habit: Habit, dayIndex: number) => {
+    if (isQuantityHabit(habit)) {
+      handleValueChange(habit.id, dayIndex, habit.checks[dayIndex] ? '' : String(habit.target ?? DEFAULT_QUANTITY_TARGET));
+    } else {
+      toggleCheck(habit.id, dayIndex);
+    }
+  };
+
+  const getRangeHabits = (range: CellRange) => activeHabits.slice(range.rows[0], range.rows[1] + 1);
+
+  // Whether every habit cell in the range is in the given state
+  const isRangeIn = (range: CellRange, state: CheckState) =>
+    getRangeHabits(range).every(h => {
+      for (let d = range.days[0]; d <= range.days[1]; d++) if (getCheckState(h, d) !== state) return false;
+      return true;
+    });
+
+  // Sets every habit cell in the range as one undoable change; mental state rows and locked days are skipped
+  const markRange = (range: CellRange, state: CheckState) => {
+    const ids = new Set(getRangeHabits(range).map(h => h.id));
+    const days: number[] = [];
+    for (let d = range.days[0]; d <= range.days[1]; d++) if (!getLock(d)) days.push(d);
+    if (ids.size === 0 || days.length === 0) return;
+    const dayCount = days.length;
+    applyChange(
+      `${CHECK_STATE_LABELS[state]} ${ids.size} habit${ids.size === 1 ? '' : 's'} × ${dayCount} day${dayCount === 1 ? '' : 's'}`,
+      {
+        habits: habits.map(h => {
+          if (!ids.has(h.id)) return h;
+          let next = h;
+          days.forEach(d => { next = setCheckState(next, d, state); });
+          return normalizeHabit(next, year, month, daysInMonth, weekStart);
+        }),
+      }
     );
   };
 
-  const handleMentalChange = (dayIndex: number, field: 'mood' | 'motivation', value: string) => {
-    const numVal = value === '' ? 0 : Math.min(10, Math.max(0, parseInt(value) || 0));
-    setMentalState((prev) => {
-      const newState = [...prev];
-      newState[dayIndex] = { ...newState[dayIndex], [field]: numVal };
-      return newState;
+  // Applies a state to the range, or clears the range if it is already all in that state
+  const toggleRange = (range: CellRange, state: CheckState) =>
+    markRange(range, isRangeIn(range, state) ? 'unlogged' : state);
+
+  // Habits not expected today, or already skipped or excused, are left alone
+  const markAllDoneToday = () => {
+    if (todayIndex === null) return;
+    const ids = new Set(
+      activeHabits
+        .filter(h => scheduledDays[h.id]?.[todayIndex] && getCheckState(h, todayIndex) === 'unlogged')
+        .map(h => h.id)
+    );
+    if (ids.size === 0) return;
+    applyChange('Mark all habits done today', {
+      habits: habits.map(h => (ids.has(h.id) ? setDayDone(h, todayIndex, true) : h)),
     });
   };
 
+  const selection = cursor && selectionAnchor ? getCellRange(selectionAnchor, cursor) : null;
+
+  const clearSelection = () => setSelectionAnchor(null);
+
+  /**
+   * Arrows (Home / End) move the cursor and extend a selection with Shift. Space cycles
+   * the cell, or marks a whole selection done (clears it if it already is); S and E do
+   * the same for skipped and excused. Digits fill metric cells; Enter opens a cell's
+   * text field and Escape leaves it again. N opens the day's journal and notes.
+   */
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, select')) {
+      if (target.closest('[data-cell]') && (e.key === 'Escape' || e.key === 'Enter')) {
+        e.preventDefault();
+        gridRef.current?.focus();
+      }
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const rowCount = activeHabits.length + registry.metrics.length;
+    const current = cursor ? clampCell(cursor, rowCount, daysInMonth) : { row: 0, day: todayIndex ?? 0 };
+    const moved = moveCell(current, e.key, rowCount, daysInMonth);
+    if (moved) {
+      e.preventDefault();
+      setSelectionAnchor(e.shiftKey ? selectionAnchor ?? current : null);
+      setCursor(moved);
+      typedDigitsRef.current = null;
+      return;
+    }
+
+    const habit = activeHabits[current.row] as Habit | undefined;
+    const metric = habit ? undefined : registry.metrics[current.row - activeHabits.length];
+    if (e.key === ' ') {
+      e.preventDefault();
+      if (selection) toggleRange(selection, 'done');
+      else if (habit) toggleCell(habit, current.day);
+    } else if ((e.key === 's' || e.key === 'S' || e.key === 'e' || e.key === 'E') && (selection || habit)) {
+      e.preventDefault();
+      toggleRange(selection ?? getCellRange(current, current), e.key.toLowerCase() === 's' ? 'skipped' : 'excused');
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      if (selection) markRange(selection, 'unlogged');
+      else if (habit) markRange(getCellRange(current, current), 'unlogged');
+      else if (metric) handleMentalChange(current.day, metric, '');
+    } else if (/^[0-9]$/.test(e.key) && metric) {
+      e.preventDefault();
+      const cellKey = `${current.row}-${current.day}`;
+      const typed = typedDigitsRef.current?.cellKey === cellKey ? typedDigitsRef.current.text : '';
+      const text = typeMetricDigit(typed, e.key, metric.max);
+      typedDigitsRef.current = { cellKey, text };
+      handleMentalChange(current.day, metric, text);
+    } else if (e.key === 'Enter' && (metric || (habit && isQuantityHabit(habit)))) {
+      e.preventDefault();
+      gridRef.current?.querySelector<HTMLInputElement>(`[data-cell="${current.row}-${current.day}"] input`)?.focus();
+    } else if (e.key === 'n' || e.key === 'N') {
+      e.preventDefault();
+      setNotesDay({ dayIndex: current.day, habitId: habit?.id });
+    } else if (e.key === 'Escape') {
+      clearSelection();
+      return;
+    } else {
+      return;
+    }
+    setCursor(current);
+  };
+
+  // Shift-click selects from the cursor to the cell; keep the button held to drag a range
+  const handleCellMouseDown = (e: React.MouseEvent, cell: GridCell) => {
+    if (e.shiftKey) {
+      e.preventDefault(); // No text selection or focus change while dragging
+      setSelectionAnchor(selectionAnchor ?? cursor ?? cell);
+      setSelecting(true);
+      gridRef.current?.focus();
+    } else {
+      setSelectionAnchor(null);
+    }
+    setCursor(cell);
+  };
+
+  const handleCellMouseEnter = (cell: GridCell) => {
+    if (selecting) setCursor(cell);
+  };
+
+  useEffect(() => {
+    if (!selecting) return;
+    const stop = () => setSelecting(false);
+    window.addEventListener('mouseup', stop);
+    return () => window.removeEventListener('mouseup', stop);
+  }, [selecting]);
+
+  // Cursor outline and selection tint for a grid cell
+  const getCellHighlight = (row: number, day: number) => {
+    if (cursor && cursor.row === row && cursor.day === day) return 'ring-2 ring-inset ring-blue-500';
+    return isInRange(selection, row, day) ? 'bg-blue-100' : '';
+  };
+
   // --- CRUD Handlers ---
 
+  // Applies a registry edit and re-resolves this month's habits, keeping their check data
+  const applyRegistryChange = (label: string, nextRegistry: HabitRegistry) => {
+    applyChange(label, {
+      registry: nextRegistry,
+      habits: resolveHabits(nextRegistry, getEntries(habits), year, month, weekStart),
+    });
+  };
+
   const startEditing = (habit: Habit) => {
     setEditingHabitId(habit.id);
     setEditName(habit.name);
     setEditIcon(habit.icon);
+    setEditSchedule(getSchedule(habit));
+    setEditKind(habit.kind ?? 'boolean');
+    setEditUnit(habit.unit ?? '');
+    setEditTarget(habit.target ?? DEFAULT_QUANTITY_TARGET);
+  };
+
+  const applyEdit = (habitId: string, fields: HabitFields, scope: EditScope) => {
+    applyRegistryChange(`Edit ${fields.name}`, updateDefinition(registry, habitId, fields, toMonthKey(year, month), scope));
   };
 
+  // Asks whether earlier months change too, unless the habit is new this month
   const saveEditing = () => {
-    if (editingHabitId) {
-      setHabits((prev) =>
-        prev.map((h) =>
-          h.id === editingHabitId ? { ...h, name: editName, icon: editIcon } : h
-        )
+    const habit = habits.find(h => h.id === editingHabitId);
+    if (!habit) return;
+    const fields = getFields({ name: editName, icon: editIcon, schedule: editSchedule, kind: editKind, unit: editUnit, target: editTarget });
+    const changed = JSON.stringify(fields) !== JSON.stringify(getFields(habit));
+    if (changed && hasEarlierMonths(registry, habit.id, year, month)) {
+      setPendingEdit({ habitId: habit.id, fields });
+    } else if (changed) {
+      applyEdit(habit.id, fields, 'from-month');
+    }
+    setEditingHabitId(null);
+  };
+
+  const chooseEditScope = (scope: EditScope) => {
+    if (pendingEdit) applyEdit(pendingEdit.habitId, pendingEdit.fields, scope);
+    setPendingEdit(null);
+  };
+
+  // --- Backup Handlers ---
+
+  const handleExport = async () => {
+    try {
+      const backup = await exportBackup(habitStore);
+      const today = new Date();
+      downloadFile(
+        `habit-tracker-backup-${toDateKey(today.getFullYear(), today.getMonth(), today.getDate())}.json`,
+        JSON.stringify(backup, null, 2),
+        'application/json'
       );
-      setEditingHabitId(null);
+    } catch (error) {
+      setDataError(`Export failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      const backup = parseBackup(await file.text());
+      setDataError(null);
+      setImportPlans([]);
+      setPendingImport({ fileName: file.name, backup });
+    } catch (error) {
+      setDataError(`Could not import ${file.name}: ${error instanceof Error ? error.message : error}`);
     }
   };
 
+  const confirmImport = async () => {
+    try {
+      if (!pendingImport) return;
+      await applyImportPlan(habitStore, importPlans, pendingImport.backup.registry, importMode);
+      await syncClient?.markAllChanged();
+      syncClient?.sync();
+      setPendingImport(null);
+      setImportPlans([]);
+      setUndoHistories({}); // Snapshots from before the import would silently revert it
+      setReloadToken(t => t + 1);
+    } catch (error) {
+      setDataError(`Import failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const loadExportRecords = useCallback((from: Date, to: Date) => loadRange(habitStore, from, to), [habitStore]);
+
+  const discardQuarantined = async (key: string) => {
+    await habitStore.discardQuarantined(key);
+    setQuarantined(prev => prev.filter(q => q.key !== key));
+  };
+
   const cancelEditing = () => {
     setEditingHabitId(null);
   };
@@ -155,43 +917,82 @@ export default function App() {
     setHabitToDelete(habit);
   };
 
-  // Confirm deletion (executes)
+  // Hide the habit from this month on and end it here; past months keep it
+  const archiveHabit = () => {
+    if (habitToDelete) {
+      const label = `Archived ${habitToDelete.name}`;
+      applyRegistryChange(label, archiveDefinition(registry, habitToDelete.id, toMonthKey(year, month), Date.now()));
+      if (editingHabitId === habitToDelete.id) {
+        setEditingHabitId(null);
+      }
+      setHabitToDelete(null);
+      setUndoToast(label);
+    }
+  };
+
+  // Bring an archived habit back under the same id from this month on; the months in between stay untracked
+  const restoreHabit = ({ habit }: ArchivedHabit) => {
+    applyRegistryChange(`Restore ${habit.name}`, restoreDefinition(registry, habit.id, toMonthKey(year, month)));
+  };
+
+  const archivedHabits = useMemo(
+    () => listArchivedHabits(registry, year, month, weekStart),
+    [registry, year, month, weekStart]
+  );
+
+  // Stop tracking from this month on (executes); earlier months keep their history
   const confirmDelete = () => {
     if (habitToDelete) {
-      setHabits(prev => prev.filter(h => h.id !== habitToDelete.id));
+      const label = `Deleted ${habitToDelete.name}`;
+      applyRegistryChange(label, removeDefinition(registry, habitToDelete.id, toMonthKey(year, month)));
       if (editingHabitId === habitToDelete.id) {
         setEditingHabitId(null);
       }
       setHabitToDelete(null);
+      setUndoToast(label);
     }
   };
 
   const addHabit = () => {
     const newId = Date.now().toString();
-    const newHabit: Habit = {
-      id: newId,
-      name: 'New Habit',
-      icon: '✨',
-      goal: daysInMonth,
-      checks: Array(daysInMonth).fill(false)
-    };
-    setHabits(prev => [...prev, newHabit]);
+    applyRegistryChange(
+      'Add habit',
+      addDefinition(registry, newId, { name: 'New Habit', icon: '✨', schedule: DEFAULT_SCHEDULE }, toMonthKey(year, month))
+    );
     // Automatically start editing the new habit
     setEditingHabitId(newId);
     setEditName('New Habit');
     setEditIcon('✨');
+    setEditSchedule(DEFAULT_SCHEDULE);
+    setEditKind('boolean');
+    setEditUnit('');
+    setEditTarget(DEFAULT_QUANTITY_TARGET);
   };
 
-  const moveHabit = (index: number, direction: 'up' | 'down') => {
-    if (direction === 'up' && index === 0) return;
-    if (direction === 'down' && index === habits.length - 1) return;
-    
-    setHabits(prev => {
-      const newHabits = [...prev];
-      const targetIndex = direction === 'up' ? index - 1 : index + 1;
-      [newHabits[index], newHabits[targetIndex]] = [newHabits[targetIndex], newHabits[index]];
-      return newHabits;
-    });
+  // --- Template Handlers ---
+
+  const applyTemplate = (fields: HabitFields[]) => {
+    applyRegistryChange(
+      fields.length === 1 ? `Add ${fields[0].name}` : `Add ${fields.length} habits`,
+      addTemplateHabits(registry, fields, toMonthKey(year, month))
+    );
+    setTemplatesMode(null);
+  };
+
+  const updateCustomTemplates = (templates: HabitTemplate[]) => {
+    setCustomTemplates(templates);
+    saveCustomTemplates(templates);
+  };
+
+  // Swaps with the neighbouring visible habit; the order is shared by every month
+  const moveHabit = (habitId: string, direction: 'up' | 'down') => {
+    const visibleIndex = activeHabits.findIndex(h => h.id === habitId);
+    const neighbour = activeHabits[direction === 'up' ? visibleIndex - 1 : visibleIndex + 1];
+    if (visibleIndex < 0 || !neighbour) return;
+    applyRegistryChange(
+      `Move ${activeHabits[visibleIndex].name} ${direction}`,
+      swapDefinitions(registry, habitId, neighbour.id)
+    );
   };
 
   const handleEditKeyDown = (e: React.KeyboardEvent) => {
@@ -204,33 +1005,69 @@ export default function App() {
 
   // --- Derived Data Calculations ---
 
-  const totalPossibleChecks = habits.length * daysInMonth;
-  const totalActualChecks = habits.reduce(
-    (acc, h) => acc + h.checks.filter((c) => c).length,
-    0
+  // Habits shown in the grid and counted in this month's totals
+  const activeHabits = useMemo(() => habits.filter(h => !isArchived(h)), [habits]);
+
+  // Which days each habit is expected on, per its schedule
+  const scheduledDays = useMemo(() => {
+    const map: Record<string, boolean[]> = {};
+    activeHabits.forEach(h => { map[h.id] = getScheduledDays(h, year, month, weekStart); });
+    return map;
+  }, [activeHabits, year, month, weekStart]);
+
+  // Days of this month up to today; progress is measured over these only
+  const elapsedDays = getElapsedDays(year, month, today);
+  const elapsedProgress = useMemo(() => {
+    const map: Record<string, { goal: number; credit: number }> = {};
+    activeHabits.forEach(h => { map[h.id] = getElapsedProgress(h, year, month, elapsedDays, weekStart); });
+    return map;
+  }, [activeHabits, year, month, elapsedDays, weekStart]);
+
+  // Totals are measured against each habit's goal (without excused days) so far, not every day of the month
+  const totalPossibleChecks = activeHabits.reduce((acc, h) => acc + elapsedProgress[h.id].goal, 0);
+  const totalActualChecks = activeHabits.reduce((acc, h) => acc + elapsedProgress[h.id].credit, 0);
+
+  // Data for "Progress", "Done", "Not Done" rows (scheduled habits only)
+  const dailyStats = useMemo(
+    () => computeDailyStats(habits, year, month, weekStart, elapsedDays),
+    [habits, year, month, weekStart, elapsedDays]
   );
 
-  // Data for "Progress", "Done", "Not Done" rows
-  const dailyStats = useMemo(() => {
-    return Array.from({ length: daysInMonth }, (_, i) => {
-      const doneCount = habits.reduce((acc, h) => acc + (h.checks[i] ? 1 : 0), 0);
-      const notDoneCount = habits.length - doneCount;
-      const percent = habits.length > 0 ? Math.round((doneCount / habits.length) * 100) : 0;
-      return {
-        day: i + 1,
-        done: doneCount,
-        notDone: notDoneCount,
-        percent,
-      };
-    });
-  }, [habits, daysInMonth]);
+  // Streaks across month boundaries, evaluated up to today (or the end of a past month)
+  const streakRecords = useMemo<MonthRecord[]>(
+    () => [...history, { year, month, data: { habits, mentalState: [], lastUpdated: 0 } }],
+    [history, habits, year, month]
+  );
+  const streaks = useMemo(() => {
+    const now = getLogicalToday(new Date(), dayStartMinutes);
+    const monthEnd = new Date(year, month, daysInMonth);
+    const asOf = monthEnd < now ? monthEnd : now;
+    return computeStreaks(streakRecords, activeHabits.map(h => h.id), asOf, now, weekStart);
+  }, [streakRecords, activeHabits, year, month, daysInMonth, weekStart, dayStartMinutes]);
+
+  // The Today view shows streaks as of the day being checked in, which may be a past day
+  const checkInStreaks = useMemo(
+    () => computeStreaks(streakRecords, activeHabits.map(h => h.id), checkInDate, checkInDate, weekStart),
+    [streakRecords, activeHabits, checkInDate, weekStart]
+  );
 
   // Chart data
+  // Days nothing was logged on are gaps, not 0%
   const habitChartData = dailyStats.map(stat => ({
     day: stat.day,
-    value: stat.percent
+    value: stat.counted > 0 ? stat.percent : null
   }));
 
+  const loggedStats = useMemo(() => sumDailyStats(dailyStats, dailyStats.map((_, i) => i)), [dailyStats]);
+
+  // One series per quantity habit, keyed by habit id
+  const quantityHabits = activeHabits.filter(isQuantityHabit);
+  const quantityChartData = Array.from({ length: daysInMonth }, (_, i) => {
+    const point: Record<string, number> = { day: i + 1 };
+    quantityHabits.forEach(h => { point[h.id] = h.values?.[i] ?? 0; });
+    return point;
+  });
+
   // Dynamic Date Config
   const daysConfig: DayConfig[] = useMemo(() => {
     return Array.from({ length: daysInMonth }, (_, i) => {
@@ -242,32 +1079,25 @@ export default function App() {
     });
   }, [year, month, daysInMonth]);
 
-  // Weeks grouping logic (Dynamic)
+  // Calendar weeks clipped to the month, labelled with their week number
   const weeks = useMemo(() => {
-    const w = [];
-    let currentDay = 0;
-    let weekCount = 1;
-    
-    // Logic: First 3 weeks are 7 days, 4th week takes the remainder
-    // Or just simple 7 day chunks
-    while (currentDay < daysInMonth) {
-        // If it's the 4th block, take all remaining
-        if (weekCount === 4) {
-             const remaining = daysInMonth - currentDay;
-             const days = Array.from({length: remaining}, (_, i) => currentDay + i);
-             w.push({ label: `Week ${weekCount}`, days });
-             break;
-        } else {
-            w.push({ 
-                label: `Week ${weekCount}`, 
-                days: Array.from({length: 7}, (_, i) => currentDay + i) 
-            });
-            currentDay += 7;
-            weekCount++;
-        }
-    }
-    return w;
-  }, [daysInMonth]);
+    return getCalendarWeekDays(year, month, weekStart).map(days => {
+      const first = new Date(year, month, days[0] + 1);
+      const last = new Date(year, month, days[days.length - 1] + 1);
+      const weekNumber = getWeekNumber(first, weekStart);
+      return {
+        label: days.length >= 3 ? `Week ${weekNumber}` : `W${weekNumber}`,
+        title: `Week ${weekNumber}: ${formatShortDate(first)} – ${formatShortDate(last)}`,
+        days,
+      };
+    });
+  }, [year, month, weekStart]);
+
+  // Done / possible / percent per calendar week
+  const weeklyStats = useMemo(
+    () => weeks.map(week => sumDailyStats(dailyStats, week.days)),
+    [weeks, dailyStats]
+  );
 
   if (!initialized) {
     return <div className="min-h-screen flex items-center justify-center bg-gray-50 text-gray-500">Loading your habits...</div>;
@@ -276,22 +1106,249 @@ export default function App() {
   return (
     <div className="min-h-screen bg-gray-50 p-4 font-sans text-sm text-gray-800">
       <div className="max-w-[1400px] mx-auto">
-        <SummaryHeader
-          monthName={currentDate.toLocaleString('default', { month: 'long' })}
-          year={year}
-          totalHabits={habits.length}
-          totalCompleted={totalActualChecks}
-          totalPossible={totalPossibleChecks}
-          onPrevMonth={() => handleMonthChange(-1)}
-          onNextMonth={() => handleMonthChange(1)}
-        />
+        {/* Only the report itself is printed from the review view */}
+        <div className={view === 'review' ? 'print:hidden' : ''}>
+          <SummaryHeader
+            monthName={currentDate.toLocaleString('default', { month: 'long' })}
+            year={year}
+            totalHabits={activeHabits.length}
+            totalCompleted={totalActualChecks}
+            totalPossible={totalPossibleChecks}
+            loggedPercent={loggedStats.possible > 0 ? loggedStats.percent : null}
+            onPrevMonth={() => handleMonthChange(-1)}
+            onNextMonth={() => handleMonthChange(1)}
+            profiles={session.list.profiles}
+            activeProfile={session.profile}
+            onSwitchProfile={session.switchProfile}
+            onManageProfiles={() => setShowProfiles(true)}
+            onLock={session.lock}
+            syncStatus={syncStatus}
+            onSyncNow={() => syncClient?.sync()}
+          />
+
+          {/* Data Toolbar */}
+          <div className="flex flex-wrap justify-end gap-2 mb-4 text-xs">
+            <button
+              onClick={handleUndo}
+              disabled={!isEditableView || undoHistory.past.length === 0}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 disabled:opacity-50 transition-colors"
+              title={undoHistory.past.length > 0 ? `Undo: ${undoHistory.past[undoHistory.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              ↶ Undo
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={!isEditableView || undoHistory.future.length === 0}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 disabled:opacity-50 transition-colors"
+              title={undoHistory.future.length > 0 ? `Redo: ${undoHistory.future[undoHistory.future.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              ↷ Redo
+            </button>
+            <button
+              onClick={markAllDoneToday}
+              disabled={!isEditableView || todayIndex === null}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 disabled:opacity-50 transition-colors"
+              title="Mark every habit scheduled today as done (Ctrl+Enter)"
+            >
+              ✓ All done today
+            </button>
+            <button
+              onClick={view === 'year' ? () => setView('month') : openYearView}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 transition-colors mr-auto"
+            >
+              {view === 'year' ? 'Month view' : 'Year view'}
+            </button>
+            <button
+              onClick={view === 'today' ? () => setView('month') : () => openCheckIn(today)}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              {view === 'today' ? 'Month view' : 'Today'}
+            </button>
+            <button
+              onClick={() => setView(view === 'review' ? 'month' : 'review')}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              {view === 'review' ? 'Month view' : 'Review'}
+            </button>
+            <button
+              onClick={() => setView(view === 'insights' ? 'month' : 'insights')}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              {view === 'insights' ? 'Month view' : 'Insights'}
+            </button>
+            <button
+              onClick={() => setShowNotesSearch(true)}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              Search notes
+            </button>
+            <button
+              onClick={() => setShowExport(true)}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              Export CSV / Calendar
+            </button>
+            <button
+              onClick={handleExport}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              Export backup
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              Import backup
+            </button>
+            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+            <button
+              onClick={() => setShowSettings(true)}
+              className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 transition-colors"
+              title="Settings"
+            >
+              ⚙ Settings
+            </button>
+          </div>
+
+          {dataError && (
+            <div className="bg-red-50 border border-red-300 text-red-700 rounded-sm p-3 mb-4 text-xs flex justify-between items-center gap-2">
+              <span>{dataError}</span>
+              <button onClick={() => setDataError(null)} className="px-2 hover:text-red-900" title="Dismiss">✕</button>
+            </div>
+          )}
+
+          {/* Rollover after months without data */}
+          {carriedFrom && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-800 rounded-sm p-3 mb-4 text-xs flex justify-between items-center gap-2">
+              <span>
+                Nothing was logged since {new Date(carriedFrom.year, carriedFrom.month).toLocaleString('default', { month: 'long', year: 'numeric' })}.
+                Your habits carried over from then.
+              </span>
+              <button onClick={() => setCarriedFrom(null)} className="px-2 hover:text-blue-900" title="Dismiss">✕</button>
+            </div>
+          )}
+
+          {/* Unreadable stored months */}
+          {quarantined.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-sm p-3 mb-4 text-xs space-y-1">
+              <p className="font-semibold">Some saved months could not be read and were set aside:</p>
+              {quarantined.map(q => (
+                <div key={q.key} className="flex items-center justify-between gap-2">
+                  <span>
+                    {new Date(q.year, q.month).toLocaleString('default', { month: 'long', year: 'numeric' })} ({q.reason}).
+                    The original data is kept under <code>{q.key}</code>.
+                  </span>
+                  <button
+                    onClick={() => discardQuarantined(q.key)}
+                    className="px-2 py-0.5 bg-yellow-100 hover:bg-yellow-200 border border-yellow-300 rounded"
+                  >
+                    Discard
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* DAILY CHECK-IN */}
+        {view === 'today' && checkInDate.getFullYear() === year && checkInDate.getMonth() === month && (
+          <TodayView
+            date={checkInDate}
+            habits={activeHabits}
+            scheduled={Object.fromEntries(activeHabits.map(h => [h.id, scheduledDays[h.id]?.[checkInDate.getDate() - 1] ?? true]))}
+            streaks={checkInStreaks}
+            mental={mentalState[checkInDate.getDate() - 1]}
+            metrics={registry.metrics}
+            isToday={checkInDate.getDate() - 1 === todayIndex}
+            lock={getLock(checkInDate.getDate() - 1)}
+            onSetState={(habit, state) => setCellState(habit.id, checkInDate.getDate() - 1, state)}
+            onValueChange={(habitId, value) => handleValueChange(habitId, checkInDate.getDate() - 1, value)}
+            onNoteChange={(habitId, text) => handleNoteChange(habitId, checkInDate.getDate() - 1, text)}
+            onMentalChange={(metric, value) => handleMentalChange(checkInDate.getDate() - 1, metric, value)}
+            onPrevDay={() => shiftCheckIn(-1)}
+            onNextDay={() => shiftCheckIn(1)}
+            onOpenNotes={() => setNotesDay({ dayIndex: checkInDate.getDate() - 1 })}
+            onClose={() => setView('month')}
+          />
+        )}
+
+        {/* PERIOD REVIEW */}
+        {view === 'review' && (
+          <ReviewReport
+            anchor={currentDate}
+            weekStart={weekStart}
+            dayStart={dayStartMinutes}
+            metrics={registry.metrics}
+            loadRecords={loadExportRecords}
+            onClose={() => setView('month')}
+          />
+        )}
+
+        {/* MOOD / HABIT INSIGHTS */}
+        {view === 'insights' && (
+          <InsightsPanel
+            year={year}
+            month={month}
+            weekStart={weekStart}
+            dayStart={dayStartMinutes}
+            metrics={registry.metrics}
+            loadRecords={loadExportRecords}
+            onClose={() => setView('month')}
+          />
+        )}
+
+        {/* YEAR HEATMAP */}
+        {view === 'year' && (
+          <YearHeatmap
+            year={heatmapYear}
+            records={yearRecords}
+            loading={yearLoading}
+            weekStart={weekStart}
+            dayStart={dayStartMinutes}
+            onSelectDay={selectHeatmapDay}
+            onPrevYear={() => setHeatmapYear(y => y - 1)}
+            onNextYear={() => setHeatmapYear(y => y + 1)}
+            onClose={() => setView('month')}
+          />
+        )}
 
         {/* MAIN GRID SECTION */}
-        <div className="flex flex-col lg:flex-row gap-4">
+        <div className={`flex flex-col lg:flex-row gap-4 ${view !== 'month' ? 'hidden' : ''}`}>
           
           {/* LEFT: HABIT GRID */}
-          <div className="flex-1 bg-white border border-gray-300 rounded-sm overflow-x-auto shadow-sm pb-4">
+          <div
+            ref={gridRef}
+            tabIndex={0}
+            onKeyDown={handleGridKeyDown}
+            className="flex-1 bg-white border border-gray-300 rounded-sm overflow-x-auto shadow-sm pb-4 focus:outline-none"
+          >
             <div className="min-w-[1000px] p-2">
+
+              {/* Selection Actions / Keyboard Hint */}
+              <div className="flex items-center justify-end gap-2 mb-1 h-6 text-[10px] text-gray-400">
+                {selection ? (
+                  <>
+                    <span className="text-gray-600 mr-auto">{countCells(selection)} cells selected</span>
+                    <button onClick={() => markRange(selection, 'done')} className="px-2 py-0.5 bg-gray-600 text-white rounded-sm hover:bg-gray-700">
+                      Mark done
+                    </button>
+                    <button onClick={() => markRange(selection, 'skipped')} className="px-2 py-0.5 bg-white border border-gray-300 text-gray-600 rounded-sm hover:bg-gray-100">
+                      Skip
+                    </button>
+                    <button onClick={() => markRange(selection, 'excused')} className="px-2 py-0.5 bg-white border border-gray-300 text-gray-600 rounded-sm hover:bg-gray-100">
+                      Excuse
+                    </button>
+                    <button onClick={() => markRange(selection, 'unlogged')} className="px-2 py-0.5 bg-white border border-gray-300 text-gray-600 rounded-sm hover:bg-gray-100">
+                      Clear
+                    </button>
+                    <button onClick={clearSelection} className="px-2 py-0.5 text-gray-500 hover:text-gray-700" title="Clear selection (Esc)">
+                      ✕
+                    </button>
+                  </>
+                ) : (
+                  <span>Arrows move · Space toggles · S skip · E excuse (or right-click) · Shift+arrows or Shift+click to select · 0–9 fill metrics · N notes</span>
+                )}
+              </div>
               
               {/* Header Row: Weeks & Days */}
               <div className="flex">
@@ -300,16 +1357,26 @@ export default function App() {
                 </div>
                 <div className="flex-1 flex">
                   {weeks.map((week, wIdx) => (
-                    <div key={wIdx} className="flex flex-col flex-1 border-r border-gray-300 last:border-r-0">
-                      <div className="text-center text-xs text-gray-500 font-semibold bg-gray-100 py-1 border-b border-gray-200">
+                    <div key={wIdx} style={{ flex: week.days.length }} className="flex flex-col border-r border-gray-300 last:border-r-0">
+                      <div className="text-center text-xs text-gray-500 font-semibold bg-gray-100 py-1 border-b border-gray-200 truncate" title={week.title}>
                         {week.label}
                       </div>
                       <div className="flex">
                         {week.days.map((dIdx) => (
-                          <div key={dIdx} className="flex-1 flex flex-col items-center min-w-[20px]">
+                          <div
+                            key={dIdx}
+                            onClick={() => setNotesDay({ dayIndex: dIdx })}
+                            className={`flex-1 flex flex-col items-center min-w-[20px] cursor-pointer hover:bg-gray-100 ${
+                              highlightedDay === dIdx ? 'bg-yellow-200' : todayIndex === dIdx ? 'bg-green-200' : ''
+                            }`}
+                            title={mentalState[dIdx]?.journal ? `Journal: ${mentalState[dIdx].journal}` : 'Journal and notes'}
+                          >
                             <div className="text-[10px] text-gray-500">{daysConfig[dIdx].dayName}</div>
-                            <div className="font-bold text-gray-700 border-b border-gray-200 w-full text-center pb-1">
+                            <div className="relative font-bold text-gray-700 border-b border-gray-200 w-full text-center pb-1">
                               {daysConfig[dIdx].dayNum}
+                              {mentalState[dIdx]?.journal && (
+                                <span className="absolute top-0 right-0 w-1.5 h-1.5 rounded-full bg-amber-400" />
+                              )}
                             </div>
                           </div>
                         ))}
@@ -320,7 +1387,7 @@ export default function App() {
               </div>
 
               {/* Habit Rows */}
-              {habits.map((habit, index) => {
+              {activeHabits.map((habit, index) => {
                 const isEditing = editingHabitId === habit.id;
                 
                 return (
@@ -328,33 +1395,46 @@ export default function App() {
                     {/* Habit Name / Edit Form */}
                     <div className="w-56 flex-shrink-0 p-2 border-r border-gray-200 flex items-center justify-between text-xs font-semibold bg-gray-100 group-hover:bg-gray-200 transition-colors relative">
                       {isEditing ? (
-                         <div className="flex w-full gap-1 items-center z-10">
-                           {/* Up/Down Reorder */}
-                           <div className="flex flex-col gap-0.5 mr-1">
-                              <button onClick={() => moveHabit(index, 'up')} disabled={index === 0} className="hover:text-blue-600 disabled:opacity-30">▲</button>
-                              <button onClick={() => moveHabit(index, 'down')} disabled={index === habits.length - 1} className="hover:text-blue-600 disabled:opacity-30">▼</button>
+                         <div className="flex flex-col w-full gap-1 z-10">
+                           <div className="flex w-full gap-1 items-center">
+                             {/* Up/Down Reorder */}
+                             <div className="flex flex-col gap-0.5 mr-1">
+                                <button onClick={() => moveHabit(habit.id, 'up')} disabled={index === 0} className="hover:text-blue-600 disabled:opacity-30">▲</button>
+                                <button onClick={() => moveHabit(habit.id, 'down')} disabled={index === activeHabits.length - 1} className="hover:text-blue-600 disabled:opacity-30">▼</button>
+                             </div>
+                             
+                             <input
+                               type="text"
+                               value={editIcon}
+                               onChange={(e) => setEditIcon(e.target.value)}
+                               onKeyDown={handleEditKeyDown}
+                               className="w-6 text-center bg-white border border-blue-400 px-0 py-1 outline-none rounded-sm text-xs"
+                               placeholder="Emoji"
+                             />
+                             <input
+                               type="text"
+                               value={editName}
+                               onChange={(e) => setEditName(e.target.value)}
+                               onKeyDown={handleEditKeyDown}
+                               className="flex-1 min-w-0 bg-white border border-blue-400 px-1 py-1 outline-none rounded-sm text-xs"
+                               autoFocus
+                             />
+                             
+                             {/* Actions */}
+                             <button onClick={saveEditing} className="text-green-600 hover:text-green-800 px-1" title="Save">✓</button>
+                             <button onClick={() => requestDelete(habit)} className="text-red-500 hover:text-red-700 px-1" title="Archive or Delete Habit">🗑</button>
                            </div>
-                           
-                           <input
-                             type="text"
-                             value={editIcon}
-                             onChange={(e) => setEditIcon(e.target.value)}
-                             onKeyDown={handleEditKeyDown}
-                             className="w-6 text-center bg-white border border-blue-400 px-0 py-1 outline-none rounded-sm text-xs"
-                             placeholder="Emoji"
+                           {editKind !== 'quit' && <ScheduleEditor schedule={editSchedule} onChange={setEditSchedule} />}
+                           <MeasureEditor
+                             kind={editKind}
+                             unit={editUnit}
+                             target={editTarget}
+                             onChange={(kind, unit, target) => {
+                               setEditKind(kind);
+                               setEditUnit(unit);
+                               setEditTarget(target);
+                             }}
                            />
-                           <input
-                             type="text"
-                             value={editName}
-                             onChange={(e) => setEditName(e.target.value)}
-                             onKeyDown={handleEditKeyDown}
-                             className="flex-1 min-w-0 bg-white border border-blue-400 px-1 py-1 outline-none rounded-sm text-xs"
-                             autoFocus
-                           />
-                           
-                           {/* Actions */}
-                           <button onClick={saveEditing} className="text-green-600 hover:text-green-800 px-1" title="Save">✓</button>
-                           <button onClick={() => requestDelete(habit)} className="text-red-500 hover:text-red-700 px-1" title="Delete Habit">🗑</button>
                          </div>
                       ) : (
                         <div 
@@ -371,25 +1451,91 @@ export default function App() {
                     {/* Checkboxes */}
                     <div className="flex-1 flex">
                       {weeks.map((week, wIdx) => (
-                        <div key={wIdx} className="flex flex-1 border-r border-gray-200 last:border-r-0">
-                          {week.days.map((dIdx) => (
-                            <div key={dIdx} className="flex-1 flex items-center justify-center border-r border-dotted border-gray-300 last:border-r-0 min-w-[20px]">
-                              <button
-                                onClick={() => toggleCheck(habit.id, dIdx)}
-                                className={`w-4 h-4 rounded-sm border ${
-                                  habit.checks[dIdx]
-                                    ? 'bg-gray-600 border-gray-700 text-white'
-                                    : 'bg-white border-gray-400 hover:border-gray-500'
-                                } flex items-center justify-center transition-all duration-100`}
-                              >
-                                {habit.checks[dIdx] && (
-                                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" />
-                                  </svg>
-                                )}
-                              </button>
+                        <div key={wIdx} style={{ flex: week.days.length }} className="flex border-r border-gray-200 last:border-r-0">
+                          {week.days.map((dIdx) => {
+                            const isScheduled = scheduledDays[habit.id]?.[dIdx] ?? true;
+                            const state = getCheckState(habit, dIdx);
+                            const cell = { row: index, day: dIdx };
+                            const lock = getLock(dIdx);
+                            return (
+                            <div
+                              key={dIdx}
+                              data-cell={`${index}-${dIdx}`}
+                              onMouseDown={(e) => handleCellMouseDown(e, cell)}
+                              onMouseEnter={() => handleCellMouseEnter(cell)}
+                              onContextMenu={(e) => { e.preventDefault(); toggleExcused(habit.id, dIdx); }}
+                              className={`relative flex-1 flex items-center justify-center border-r border-dotted border-gray-300 last:border-r-0 min-w-[20px] ${
+                                getCellHighlight(index, dIdx) ||
+                                (highlightedDay === dIdx
+                                  ? 'bg-yellow-100'
+                                  : todayIndex === dIdx ? 'bg-green-50' : state === 'excused' ? 'bg-blue-50' : isScheduled ? '' : 'bg-gray-100')
+                              } ${lock ? 'opacity-40' : ''}`}
+                              title={habit.notes?.[dIdx] ?? (
+                                state === 'excused' ? 'Excused' : state === 'skipped' ? 'Skipped' : state === 'slipped' ? 'Slipped' : isScheduled ? undefined : 'Not scheduled'
+                              )}
+                            >
+                              {hasNote(habit, dIdx) && (
+                                <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-amber-400 pointer-events-none" />
+                              )}
+                              {isQuantityHabit(habit) ? (
+                                <QuantityInput
+                                  className={`w-full text-center text-[10px] focus:bg-white focus:outline-none focus:ring-1 focus:ring-blue-300 ${
+                                    habit.checks[dIdx]
+                                      ? 'bg-gray-600 text-white font-bold'
+                                      : getDayCredit(habit, dIdx) > 0 ? 'bg-gray-300 text-gray-800' : 'bg-transparent'
+                                  }`}
+                                  value={habit.values?.[dIdx]}
+                                  onCommit={(text) => handleValueChange(habit.id, dIdx, text)}
+                                  readOnly={!!lock}
+                                  placeholder={SKIP_MARKS[state] ?? '-'}
+                                  title={`${habit.values?.[dIdx] ?? 0} / ${habit.target} ${habit.unit ?? ''}`.trim()}
+                                />
+                              ) : isQuitHabit(habit) ? (
+                                // Clean days so far are green; clicking logs a slip, or takes it back
+                                <button
+                                  tabIndex={-1}
+                                  disabled={!!lock}
+                                  onClick={(e) => { if (!e.shiftKey) toggleCheck(habit.id, dIdx); }}
+                                  className={`w-4 h-4 rounded-full border text-[9px] font-bold ${
+                                    state === 'slipped'
+                                      ? 'bg-red-500 border-red-600 text-white'
+                                      : state === 'excused'
+                                        ? 'bg-blue-50 border-blue-300 text-blue-400'
+                                        : dIdx < elapsedDays
+                                          ? 'bg-green-100 border-green-300 hover:border-red-400'
+                                          : 'bg-white border-gray-200'
+                                  } flex items-center justify-center transition-all duration-100`}
+                                >
+                                  {SKIP_MARKS[state]}
+                                </button>
+                              ) : (
+                                <button
+                                  tabIndex={-1}
+                                  disabled={!!lock}
+                                  onClick={(e) => { if (!e.shiftKey) toggleCheck(habit.id, dIdx); }}
+                                  className={`w-4 h-4 rounded-sm border text-[9px] font-bold ${
+                                    state === 'done'
+                                      ? 'bg-gray-600 border-gray-700 text-white'
+                                      : state === 'skipped'
+                                        ? 'bg-red-50 border-red-300 text-red-400'
+                                        : state === 'excused'
+                                          ? 'bg-blue-50 border-blue-300 text-blue-400'
+                                          : isScheduled
+                                            ? 'bg-white border-gray-400 hover:border-gray-500'
+                                            : 'bg-gray-100 border-dashed border-gray-300 hover:border-gray-400'
+                                  } flex items-center justify-center transition-all duration-100`}
+                                >
+                                  {SKIP_MARKS[state]}
+                                  {habit.checks[dIdx] && (
+                                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" />
+                                    </svg>
+                                  )}
+                                </button>
+                              )}
                             </div>
-                          ))}
+                            );
+                          })}
                         </div>
                       ))}
                     </div>
@@ -406,6 +1552,18 @@ export default function App() {
                      >
                        <span>+</span> New Habit
                      </button>
+                     <button
+                       onClick={() => setShowArchived(true)}
+                       className="w-full mt-1 text-[10px] text-gray-500 hover:text-gray-700 hover:underline"
+                     >
+                       Archived habits
+                     </button>
+                     <button
+                       onClick={() => setTemplatesMode('browse')}
+                       className="w-full text-[10px] text-gray-500 hover:text-gray-700 hover:underline"
+                     >
+                       Templates
+                     </button>
                   </div>
                   <div className="flex-1 bg-gray-50/50"></div>
               </div>
@@ -417,10 +1575,10 @@ export default function App() {
                   <div className="w-56 p-1 text-right text-xs font-bold text-gray-600 pr-4 bg-gray-100">Progress</div>
                   <div className="flex-1 flex">
                      {weeks.map((week, wIdx) => (
-                        <div key={wIdx} className="flex flex-1 border-r border-gray-200 last:border-r-0">
+                        <div key={wIdx} style={{ flex: week.days.length }} className="flex border-r border-gray-200 last:border-r-0">
                           {week.days.map((dIdx) => (
                             <div key={dIdx} className="flex-1 text-[10px] text-center text-gray-500 py-1 min-w-[20px]">
-                              {dailyStats[dIdx].percent}%
+                              {dailyStats[dIdx].counted > 0 ? `${dailyStats[dIdx].percent}%` : '–'}
                             </div>
                           ))}
                         </div>
@@ -432,7 +1590,7 @@ export default function App() {
                   <div className="w-56 p-1 text-right text-xs font-bold text-gray-600 pr-4 bg-gray-100">Done</div>
                   <div className="flex-1 flex">
                      {weeks.map((week, wIdx) => (
-                        <div key={wIdx} className="flex flex-1 border-r border-gray-200 last:border-r-0">
+                        <div key={wIdx} style={{ flex: week.days.length }} className="flex border-r border-gray-200 last:border-r-0">
                           {week.days.map((dIdx) => (
                             <div key={dIdx} className="flex-1 text-[10px] text-center font-bold text-gray-700 py-1 min-w-[20px]">
                               {dailyStats[dIdx].done}
@@ -447,7 +1605,7 @@ export default function App() {
                   <div className="w-56 p-1 text-right text-xs font-bold text-gray-600 pr-4 bg-gray-100">Not Done</div>
                   <div className="flex-1 flex">
                      {weeks.map((week, wIdx) => (
-                        <div key={wIdx} className="flex flex-1 border-r border-gray-200 last:border-r-0">
+                        <div key={wIdx} style={{ flex: week.days.length }} className="flex border-r border-gray-200 last:border-r-0">
                           {week.days.map((dIdx) => (
                             <div key={dIdx} className="flex-1 text-[10px] text-center text-gray-400 py-1 min-w-[20px]">
                               {dailyStats[dIdx].notDone}
@@ -457,6 +1615,24 @@ export default function App() {
                      ))}
                   </div>
                 </div>
+                {/* Week Subtotals Row */}
+                <div className="flex border-b border-gray-200">
+                  <div className="w-56 p-1 text-right text-xs font-bold text-gray-600 pr-4 bg-gray-100">Week Total</div>
+                  <div className="flex-1 flex">
+                     {weeks.map((week, wIdx) => (
+                        <div
+                          key={wIdx}
+                          style={{ flex: week.days.length }}
+                          className="text-[10px] text-center text-gray-700 py-1 border-r border-gray-200 last:border-r-0 truncate"
+                          title={`${weeklyStats[wIdx].done} of ${weeklyStats[wIdx].possible} counted checks done (excused and unlogged days left out)`}
+                        >
+                          <span className="font-bold">{weeklyStats[wIdx].done}/{weeklyStats[wIdx].possible}</span>
+                          {week.days.length >= 3 && ' · '}
+                          {week.days.length >= 3 && `${weeklyStats[wIdx].percent}%`}
+                        </div>
+                     ))}
+                  </div>
+                </div>
               </div>
 
               {/* Progress Chart */}
@@ -467,66 +1643,84 @@ export default function App() {
                 />
               </div>
 
+              {/* Amounts Chart (quantity habits) */}
+              {quantityHabits.length > 0 && (
+                <div className="mt-2 border border-gray-300 bg-white">
+                  <AnalysisChart
+                    data={quantityChartData}
+                    dataKeys={quantityHabits.map((h, i) => ({
+                      key: h.id,
+                      name: `${h.icon} ${h.name}${h.unit ? ` (${h.unit})` : ''}`,
+                      ...QUANTITY_COLORS[i % QUANTITY_COLORS.length],
+                    }))}
+                  />
+                </div>
+              )}
+
                {/* Mental State Section */}
               <div className="mt-6 border-t-2 border-gray-300">
-                  <div className="bg-gray-200 text-center py-1 font-bold text-gray-600 text-xs border-b border-gray-300">Mental State</div>
-                  
-                  {/* Mood Inputs */}
-                  <div className="flex border-b border-gray-200">
-                    <div className="w-56 p-1 text-right text-xs font-bold text-gray-600 pr-4 bg-gray-100 flex items-center justify-end">Mood</div>
-                    <div className="flex-1 flex">
-                      {weeks.map((week, wIdx) => (
-                          <div key={wIdx} className="flex flex-1 border-r border-gray-200 last:border-r-0">
-                            {week.days.map((dIdx) => (
-                              <div key={dIdx} className="flex-1 py-1 px-px min-w-[20px]">
-                                <input 
-                                  type="text" 
-                                  className="w-full text-center text-[10px] bg-transparent focus:bg-white focus:outline-none focus:ring-1 focus:ring-blue-300"
-                                  value={mentalState[dIdx]?.mood === 0 ? '' : mentalState[dIdx]?.mood}
-                                  onChange={(e) => handleMentalChange(dIdx, 'mood', e.target.value)}
-                                  placeholder="-"
-                                />
-                              </div>
-                            ))}
-                          </div>
-                      ))}
-                    </div>
+                  <div className="relative bg-gray-200 text-center py-1 font-bold text-gray-600 text-xs border-b border-gray-300">
+                    Mental State
+                    <button
+                      onClick={() => setShowMetrics(true)}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 font-normal text-gray-500 hover:text-gray-800"
+                      title="Add, rename or remove metrics"
+                    >
+                      ⚙ Metrics
+                    </button>
                   </div>
 
-                  {/* Motivation Inputs */}
-                   <div className="flex border-b border-gray-200">
-                    <div className="w-56 p-1 text-right text-xs font-bold text-gray-600 pr-4 bg-gray-100 flex items-center justify-end">Motivation</div>
-                    <div className="flex-1 flex">
-                      {weeks.map((week, wIdx) => (
-                          <div key={wIdx} className="flex flex-1 border-r border-gray-200 last:border-r-0">
-                            {week.days.map((dIdx) => (
-                              <div key={dIdx} className="flex-1 py-1 px-px min-w-[20px]">
-                                <input 
-                                  type="text" 
-                                  className="w-full text-center text-[10px] bg-transparent focus:bg-white focus:outline-none focus:ring-1 focus:ring-blue-300"
-                                  value={mentalState[dIdx]?.motivation === 0 ? '' : mentalState[dIdx]?.motivation}
-                                  onChange={(e) => handleMentalChange(dIdx, 'motivation', e.target.value)}
-                                  placeholder="-"
-                                />
+                  {registry.metrics.map((metric, mIdx) => {
+                    const row = activeHabits.length + mIdx;
+                    return (
+                      <div key={metric.id} className="flex border-b border-gray-200">
+                        <div className="w-56 p-1 text-right text-xs font-bold text-gray-600 pr-4 bg-gray-100 flex items-center justify-end truncate">
+                          {metric.name}
+                          {metric.unit && <span className="ml-1 font-normal text-gray-400">({metric.unit})</span>}
+                        </div>
+                        <div className="flex-1 flex">
+                          {weeks.map((week, wIdx) => (
+                              <div key={wIdx} style={{ flex: week.days.length }} className="flex border-r border-gray-200 last:border-r-0">
+                                {week.days.map((dIdx) => (
+                                  <div
+                                    key={dIdx}
+                                    data-cell={`${row}-${dIdx}`}
+                                    onMouseDown={(e) => handleCellMouseDown(e, { row, day: dIdx })}
+                                    onMouseEnter={() => handleCellMouseEnter({ row, day: dIdx })}
+                                    className={`flex-1 py-1 px-px min-w-[20px] ${
+                                      getCellHighlight(row, dIdx) || (todayIndex === dIdx ? 'bg-green-50' : '')
+                                    } ${getLock(dIdx) ? 'opacity-40' : ''}`}
+                                  >
+                                    <MetricInput
+                                      metric={metric}
+                                      value={getMetricValue(mentalState[dIdx], metric.id)}
+                                      onChange={(text) => handleMentalChange(dIdx, metric, text)}
+                                      disabled={!!getLock(dIdx)}
+                                    />
+                                  </div>
+                                ))}
                               </div>
-                            ))}
-                          </div>
-                      ))}
-                    </div>
-                  </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {registry.metrics.length === 0 && (
+                    <div className="p-2 text-center text-xs text-gray-500 italic">No metrics tracked</div>
+                  )}
               </div>
 
-              {/* Mental State Chart */}
-              <div className="mt-2 border border-gray-300 bg-white">
-                 <AnalysisChart 
-                  data={mentalState}
-                  dataKeys={[
-                    { key: 'mood', color: '#8884d8', fill: '#e0e7ff' },
-                    { key: 'motivation', color: '#ffc658', fill: '#fef3c7' }
-                  ]}
-                  height={150}
-                />
-              </div>
+              {/* Mental State Charts, one per scale */}
+              {groupMetricsByScale(registry.metrics).map((group) => (
+                <div key={group.map((m) => m.id).join('|')} className="mt-2 border border-gray-300 bg-white">
+                   <AnalysisChart
+                    data={getMetricChartData(mentalState, group)}
+                    dataKeys={group.map((m) => ({ key: m.id, name: m.name, color: m.color, fill: getMetricFill(m) }))}
+                    yDomain={[group[0].min, group[0].max]}
+                    height={150}
+                  />
+                </div>
+              ))}
 
             </div>
           </div>
@@ -536,48 +1730,202 @@ export default function App() {
             <h2 className="text-center font-bold text-gray-700 mb-4 text-lg border-b border-gray-300 pb-2">Analysis</h2>
             
             {/* Table Header */}
-            <div className="grid grid-cols-4 gap-1 text-[10px] font-bold text-gray-500 mb-2 text-center">
+            <div className="grid grid-cols-6 gap-1 text-[10px] font-bold text-gray-500 mb-2 text-center">
                <div>Goal</div>
                <div>Actual</div>
+               <div title="Current streak (days)">Streak</div>
+               <div title="Longest streak (days)">Best</div>
                <div className="col-span-2">Progress</div>
             </div>
 
             {/* Analysis Rows */}
             <div className="space-y-3">
-              {habits.map((habit) => {
+              {activeHabits.map((habit) => {
                  const checkedCount = habit.checks.filter(Boolean).length;
-                 const goal = daysInMonth; // Or specific goal if added to habit model later
-                 const percentage = goal > 0 ? (checkedCount / goal) * 100 : 0;
+                 const slipCount = habit.checks.filter((_, d) => getCheckState(habit, d) === 'slipped').length;
+                 const creditedCount = getCreditedChecks(habit);
+                 const goal = habit.goal;
+                 const progress = elapsedProgress[habit.id];
+                 const percentage = progress.goal > 0 ? (progress.credit / progress.goal) * 100 : 0;
+                 const streak = streaks[habit.id];
                  return (
-                  <div key={habit.id} className="grid grid-cols-4 gap-1 items-center text-xs">
+                  <div key={habit.id} className="grid grid-cols-6 gap-1 items-center text-xs">
                     <div className="text-center text-gray-600">{goal}</div>
-                    <div className="text-center font-bold text-gray-800">{checkedCount}</div>
+                    <div className="text-center font-bold text-gray-800">
+                      {isQuantityHabit(habit) ? formatQuantity(creditedCount) : isQuitHabit(habit) ? elapsedProgress[habit.id].credit : checkedCount}
+                    </div>
+                    <div className="text-center font-bold text-orange-600">{streak?.current ?? 0}</div>
+                    <div className="text-center text-gray-600">{streak?.longest ?? 0}</div>
                     <div className="col-span-2">
-                       <div className="w-full bg-white h-4 border border-gray-300 rounded-sm overflow-hidden relative">
-                          <div 
-                            className="absolute top-0 left-0 h-full bg-green-400 transition-all duration-300"
-                            style={{ width: `${percentage}%` }}
-                          />
-                       </div>
+                       {isQuitHabit(habit) ? (
+                         // One segment per day: clean, slipped or excused, blank for days still to come
+                         <div
+                           className="w-full bg-white h-4 border border-gray-300 rounded-sm overflow-hidden flex gap-px"
+                           title={`${slipCount} slip${slipCount === 1 ? '' : 's'} this month`}
+                         >
+                           {habit.checks.map((_, d) => {
+                             const state = getCheckState(habit, d);
+                             return (
+                               <div
+                                 key={d}
+                                 className={`flex-1 ${
+                                   d >= elapsedDays ? '' : state === 'slipped' ? 'bg-red-400' : state === 'excused' ? 'bg-blue-200' : 'bg-green-400'
+                                 }`}
+                               />
+                             );
+                           })}
+                         </div>
+                       ) : (
+                         <div className="w-full bg-white h-4 border border-gray-300 rounded-sm overflow-hidden relative">
+                            <div 
+                              className="absolute top-0 left-0 h-full bg-green-400 transition-all duration-300"
+                              style={{ width: `${percentage}%` }}
+                            />
+                         </div>
+                       )}
+                    </div>
+                    <div className="col-span-6 text-[9px] text-gray-400 text-right -mt-1" title={habit.name}>
+                      {isQuitHabit(habit) ? (
+                        <>
+                          {habit.icon} {streak?.current ?? 0} day{streak?.current === 1 ? '' : 's'} since last slip · {streak?.lastBroken
+                            ? `Last slip ${formatShortDate(streak.lastBroken)}`
+                            : 'No slips yet'}
+                        </>
+                      ) : (
+                        <>
+                          {habit.icon} {describeSchedule(getSchedule(habit))}
+                          {isQuantityHabit(habit) && ` · ${formatQuantity(getTotalValue(habit))} ${habit.unit ?? ''}`} · {!streak?.longest
+                            ? 'No streak yet'
+                            : streak.lastBroken ? `Last broken ${formatShortDate(streak.lastBroken)}` : 'Never broken'}
+                        </>
+                      )}
                     </div>
                   </div>
                  )
               })}
-              {habits.length === 0 && <div className="text-center text-gray-500 text-xs italic py-4">No habits yet</div>}
+              {activeHabits.length === 0 && <div className="text-center text-gray-500 text-xs italic py-4">No habits yet</div>}
             </div>
           </div>
 
         </div>
       </div>
 
-      {/* Delete Confirmation Modal */}
+      {/* Settings */}
+      {showSettings && (
+        <SettingsModal
+          settings={settings}
+          habits={activeHabits}
+          notificationStatus={notificationStatus}
+          onChange={setSettings}
+          onRequestNotifications={() => requestNotificationPermission().then(setNotificationStatus)}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {/* Profiles */}
+      {showProfiles && (
+        <ProfilesModal list={session.list} onChange={session.setList} onClose={() => setShowProfiles(false)} />
+      )}
+
+      {/* Templates and first-run onboarding */}
+      {templatesMode && (
+        <TemplatesModal
+          mode={templatesMode}
+          templates={[...TEMPLATE_PACKS, ...customTemplates]}
+          monthName={currentDate.toLocaleString('default', { month: 'long', year: 'numeric' })}
+          canSave={activeHabits.length > 0}
+          onApply={applyTemplate}
+          onSaveTemplate={name => updateCustomTemplates([...customTemplates, createTemplate(name, activeHabits)])}
+          onDeleteTemplate={id => updateCustomTemplates(customTemplates.filter(t => t.id !== id))}
+          onClose={() => setTemplatesMode(null)}
+        />
+      )}
+
+      {/* Daily Metrics */}
+      {showMetrics && (
+        <MetricsModal
+          metrics={registry.metrics}
+          onSave={handleMetricsChange}
+          onCancel={() => setShowMetrics(false)}
+        />
+      )}
+
+      {/* CSV / iCalendar Export */}
+      {showExport && (
+        <ExportModal
+          defaultFrom={toDateKey(year, month, 1)}
+          defaultTo={toDateKey(year, month, daysInMonth)}
+          today={today}
+          metrics={registry.metrics}
+          loadRecords={loadExportRecords}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {/* Backup Import Preview */}
+      {pendingImport && (
+        <ImportPreviewModal
+          fileName={pendingImport.fileName}
+          mode={importMode}
+          plans={importPlans}
+          onModeChange={setImportMode}
+          onConfirm={confirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {/* Undo offer after destructive changes */}
+      {undoToast && view === 'month' && (
+        <UndoToast message={undoToast} onUndo={handleUndo} onDismiss={dismissUndoToast} />
+      )}
+
+      {/* Archived Habits */}
+      {notesDay && isEditableView && notesDay.dayIndex < daysInMonth && (
+        <DayNotesDrawer
+          key={`${monthKey}-${notesDay.dayIndex}`}
+          date={new Date(year, month, notesDay.dayIndex + 1)}
+          habits={activeHabits}
+          journal={mentalState[notesDay.dayIndex]?.journal ?? ''}
+          focusHabitId={notesDay.habitId}
+          hasPrevDay={notesDay.dayIndex > 0}
+          hasNextDay={notesDay.dayIndex < daysInMonth - 1}
+          onJournalChange={text => handleJournalChange(notesDay.dayIndex, text)}
+          onNoteChange={(habitId, text) => handleNoteChange(habitId, notesDay.dayIndex, text)}
+          onPrevDay={() => setNotesDay({ dayIndex: notesDay.dayIndex - 1 })}
+          onNextDay={() => setNotesDay({ dayIndex: notesDay.dayIndex + 1 })}
+          onClose={() => setNotesDay(null)}
+        />
+      )}
+
+      {showNotesSearch && (
+        <NotesSearchModal search={runNotesSearch} onSelect={selectNoteMatch} onClose={() => setShowNotesSearch(false)} />
+      )}
+
+      {showArchived && (
+        <ArchivedHabitsModal
+          archived={archivedHabits}
+          onRestore={restoreHabit}
+          onClose={() => setShowArchived(false)}
+        />
+      )}
+
+      {/* Archive / Delete Confirmation Modal */}
+      {pendingEdit && (
+        <EditScopeModal
+          habitName={habits.find(h => h.id === pendingEdit.habitId)?.name ?? pendingEdit.fields.name}
+          monthLabel={currentDate.toLocaleString('default', { month: 'long', year: 'numeric' })}
+          onChoose={chooseEditScope}
+          onCancel={() => setPendingEdit(null)}
+        />
+      )}
+
       {habitToDelete && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
              <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-sm mx-4 transform transition-all">
-                <h3 className="text-lg font-bold text-gray-800 mb-2">Delete Habit</h3>
+                <h3 className="text-lg font-bold text-gray-800 mb-2">Remove Habit</h3>
                 <p className="text-gray-600 mb-6 text-sm">
-                    Are you sure you want to delete <span className="font-semibold text-gray-800">"{habitToDelete.name}"</span>?
-                    <br/><span className="text-xs text-gray-500 mt-2 block">This action cannot be undone and will remove all history for this habit.</span>
+                    Archive <span className="font-semibold text-gray-800">"{habitToDelete.name}"</span>?
+                    <br/><span className="text-xs text-gray-500 mt-2 block">Archived habits are hidden and no longer carried into new months, but their history is kept and they can be restored from "Archived habits". Deleting removes this month's history for the habit.</span>
                 </p>
                 <div className="flex justify-end gap-3">
                     <button 
@@ -588,10 +1936,16 @@ export default function App() {
                     </button>
                     <button 
                         onClick={confirmDelete}
-                        className="px-4 py-2 text-white bg-red-500 hover:bg-red-600 rounded text-sm font-medium transition-colors shadow-sm"
+                        className="px-4 py-2 text-red-600 bg-red-50 hover:bg-red-100 rounded text-sm font-medium transition-colors"
                     >
                         Delete
                     </button>
+                    <button 
+                        onClick={archiveHabit}
+                        className="px-4 py-2 text-white bg-blue-500 hover:bg-blue-600 rounded text-sm font-medium transition-colors shadow-sm"
+                    >
+                        Archive
+                    </button>
                 </div>
              </div>
         </div>
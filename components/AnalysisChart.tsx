@@ -2,6 +2,9 @@ import React from 'react';
 import {
   AreaChart,
   Area,
+  BarChart,
+  Bar,
+  ReferenceLine,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -11,11 +14,45 @@ import {
 
 interface AnalysisChartProps {
   data: any[];
-  dataKeys: { key: string; color: string; fill: string }[];
+  dataKeys: { key: string; color: string; fill: string; name?: string }[];
   height?: number;
+  variant?: 'area' | 'bar'; // Bars compare categories, e.g. one group per habit
+  xKey?: string;
+  yDomain?: [number, number];
+  referenceY?: number; // Draws a dashed horizontal line, e.g. at zero
 }
 
-export const AnalysisChart: React.FC<AnalysisChartProps> = ({ data, dataKeys, height = 150 }) => {
+export const AnalysisChart: React.FC<AnalysisChartProps> = ({
+  data,
+  dataKeys,
+  height = 150,
+  variant = 'area',
+  xKey = 'day',
+  yDomain,
+  referenceY,
+}) => {
+  if (variant === 'bar') {
+    return (
+      <div className="w-full bg-white border border-gray-300 rounded-sm p-2" style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 5, right: 0, left: -20, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey={xKey} tick={{ fontSize: 10 }} interval={0} />
+            <YAxis tick={{ fontSize: 10 }} domain={yDomain} />
+            <Tooltip
+              contentStyle={{ fontSize: '12px', borderRadius: '4px' }}
+              itemStyle={{ padding: 0 }}
+            />
+            {referenceY !== undefined && <ReferenceLine y={referenceY} stroke="#9ca3af" strokeDasharray="3 3" />}
+            {dataKeys.map((dk) => (
+              <Bar key={dk.key} dataKey={dk.key} name={dk.name ?? dk.key} fill={dk.fill} stroke={dk.color} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+
   return (
     <div className="w-full bg-white border border-gray-300 rounded-sm p-2" style={{ height }}>
       <ResponsiveContainer width="100%" height="100%">
@@ -29,8 +66,9 @@ export const AnalysisChart: React.FC<AnalysisChartProps> = ({ data, dataKeys, he
           }}
         >
           <CartesianGrid strokeDasharray="3 3" vertical={false} />
-          <XAxis dataKey="day" tick={{ fontSize: 10 }} interval={2} />
-          <YAxis tick={{ fontSize: 10 }} />
+          <XAxis dataKey={xKey} tick={{ fontSize: 10 }} interval={2} />
+          <YAxis tick={{ fontSize: 10 }} domain={yDomain} />
+          {referenceY !== undefined && <ReferenceLine y={referenceY} stroke="#9ca3af" strokeDasharray="3 3" />}
           <Tooltip 
             contentStyle={{ fontSize: '12px', borderRadius: '4px' }}
             itemStyle={{ padding: 0 }}
@@ -40,6 +78,7 @@ export const AnalysisChart: React.FC<AnalysisChartProps> = ({ data, dataKeys, he
               key={dk.key}
               type="monotone"
               dataKey={dk.key}
+              name={dk.name ?? dk.key}
               stroke={dk.color}
               fill={dk.fill}
               strokeWidth={2}
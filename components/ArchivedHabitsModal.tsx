@@ -0,0 +1,52 @@
+import React from 'react';
+import { ArchivedHabit } from '../types';
+import { describeSchedule, getSchedule } from '../utils/schedule';
+
+interface ArchivedHabitsModalProps {
+  archived: ArchivedHabit[];
+  onRestore: (archived: ArchivedHabit) => void;
+  onClose: () => void;
+}
+
+export const ArchivedHabitsModal: React.FC<ArchivedHabitsModalProps> = ({ archived, onRestore, onClose }) => {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-md mx-4 flex flex-col max-h-[80vh]">
+        <h3 className="text-lg font-bold text-gray-800 mb-1">Archived Habits</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Restoring brings a habit back from this month on. Its earlier history is kept, and the months it was archived stay untracked.
+        </p>
+
+        <div className="flex-1 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-100 text-xs min-h-[80px]">
+          {archived.length === 0 && <div className="text-center text-gray-500 italic py-4">No archived habits</div>}
+          {archived.map((item) => (
+            <div key={item.habit.id} className="p-2 flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-semibold text-gray-700 truncate">{item.habit.icon} {item.habit.name}</div>
+                <div className="text-[10px] text-gray-500">
+                  {describeSchedule(getSchedule(item.habit))} · archived{' '}
+                  {new Date(item.habit.archivedAt ?? 0).toLocaleDateString('default', { month: 'short', day: 'numeric', year: 'numeric' })}
+                </div>
+              </div>
+              <button
+                onClick={() => onRestore(item)}
+                className="px-3 py-1 text-white bg-blue-500 hover:bg-blue-600 rounded text-xs font-medium transition-colors shadow-sm"
+              >
+                Restore
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Habit } from '../types';
+import { NOTE_MAX_LENGTH } from '../utils/notes';
+
+interface DayNotesDrawerProps {
+  date: Date;
+  habits: Habit[];
+  journal: string;
+  focusHabitId?: string; // Note field to focus when opened from a grid cell
+  hasPrevDay: boolean;
+  hasNextDay: boolean;
+  onJournalChange: (text: string) => void;
+  onNoteChange: (habitId: string, text: string) => void;
+  onPrevDay: () => void;
+  onNextDay: () => void;
+  onClose: () => void;
+}
+
+export const DayNotesDrawer: React.FC<DayNotesDrawerProps> = ({
+  date,
+  habits,
+  journal,
+  focusHabitId,
+  hasPrevDay,
+  hasNextDay,
+  onJournalChange,
+  onNoteChange,
+  onPrevDay,
+  onNextDay,
+  onClose,
+}) => {
+  const dayIndex = date.getDate() - 1;
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 w-full sm:w-96 bg-white border-l border-gray-300 shadow-xl flex flex-col print:hidden">
+      <div className="flex items-center justify-between gap-2 p-4 border-b border-gray-200 bg-gray-100">
+        <button onClick={onPrevDay} disabled={!hasPrevDay} className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30" title="Previous day">
+          ◀
+        </button>
+        <h3 className="flex-1 text-center font-bold text-gray-800">
+          {date.toLocaleDateString('default', { weekday: 'long', month: 'long', day: 'numeric' })}
+        </h3>
+        <button onClick={onNextDay} disabled={!hasNextDay} className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30" title="Next day">
+          ▶
+        </button>
+        <button onClick={onClose} className="px-2 text-gray-500 hover:text-gray-800" title="Close">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+        <label className="block">
+          <span className="block text-xs font-semibold text-gray-600 uppercase mb-1">Journal</span>
+          <textarea
+            value={journal}
+            onChange={(e) => onJournalChange(e.target.value)}
+            rows={8}
+            placeholder="How did the day go?"
+            className="w-full border border-gray-300 rounded p-2 text-sm focus:outline-none focus:ring-1 focus:ring-blue-300"
+            autoFocus={!focusHabitId}
+          />
+        </label>
+
+        <div>
+          <span className="block text-xs font-semibold text-gray-600 uppercase mb-1">Check notes</span>
+          <div className="space-y-2">
+            {habits.map((habit) => (
+              <label key={habit.id} className="block">
+                <span className="flex items-center gap-1 text-xs text-gray-700 mb-0.5">
+                  <span>{habit.icon}</span>
+                  <span className="truncate">{habit.name}</span>
+                  {habit.checks[dayIndex] && <span className="text-green-600" title="Done">✓</span>}
+                  {habit.skips?.[dayIndex] === 'skipped' && <span className="text-red-400" title="Skipped">–</span>}
+                  {habit.skips?.[dayIndex] === 'excused' && <span className="text-blue-400" title="Excused">E</span>}
+                  {habit.skips?.[dayIndex] === 'slipped' && <span className="text-red-500" title="Slipped">✗</span>}
+                </span>
+                <input
+                  type="text"
+                  value={habit.notes?.[dayIndex] ?? ''}
+                  onChange={(e) => onNoteChange(habit.id, e.target.value)}
+                  maxLength={NOTE_MAX_LENGTH}
+                  placeholder={habit.skips?.[dayIndex] === 'slipped' ? 'What triggered it?' : 'Add a note'}
+                  className="w-full border border-gray-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-blue-300"
+                  autoFocus={habit.id === focusHabitId}
+                />
+              </label>
+            ))}
+            {habits.length === 0 && <p className="text-xs text-gray-500 italic">No habits this month</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
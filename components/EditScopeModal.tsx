@@ -0,0 +1,41 @@
+import React from 'react';
+import { EditScope } from '../types';
+
+interface EditScopeModalProps {
+  habitName: string;
+  monthLabel: string; // e.g. "March 2024"
+  onChoose: (scope: EditScope) => void;
+  onCancel: () => void;
+}
+
+export const EditScopeModal: React.FC<EditScopeModalProps> = ({ habitName, monthLabel, onChoose, onCancel }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+    <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-sm mx-4">
+      <h3 className="text-lg font-bold text-gray-800 mb-2">Apply Changes</h3>
+      <p className="text-gray-600 mb-6 text-sm">
+        <span className="font-semibold text-gray-800">"{habitName}"</span> was tracked before {monthLabel}. Should
+        earlier months keep the old name and settings?
+      </p>
+      <div className="flex flex-col gap-2">
+        <button
+          onClick={() => onChoose('from-month')}
+          className="px-4 py-2 text-white bg-blue-500 hover:bg-blue-600 rounded text-sm font-medium transition-colors shadow-sm"
+        >
+          Apply from {monthLabel} on
+        </button>
+        <button
+          onClick={() => onChoose('everywhere')}
+          className="px-4 py-2 text-blue-700 bg-blue-50 hover:bg-blue-100 rounded text-sm font-medium transition-colors"
+        >
+          Apply everywhere
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { MetricDefinition, MonthRecord } from '../types';
+import { buildCsv, buildIcs, collectHabits } from '../services/exports';
+import { downloadFile } from '../utils/download';
+import { parseDateKey } from '../utils/dates';
+
+interface ExportModalProps {
+  defaultFrom: string; // YYYY-MM-DD
+  defaultTo: string;
+  today: Date; // Days after it are left out of exports
+  metrics: MetricDefinition[];
+  loadRecords: (from: Date, to: Date) => Promise<MonthRecord[]>;
+  onClose: () => void;
+}
+
+export const ExportModal: React.FC<ExportModalProps> = ({ defaultFrom, defaultTo, today, metrics, loadRecords, onClose }) => {
+  const [from, setFrom] = useState(defaultFrom);
+  const [to, setTo] = useState(defaultTo);
+  const [records, setRecords] = useState<MonthRecord[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null); // null = all
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeValid = !!from && !!to && from <= to;
+
+  useEffect(() => {
+    if (!rangeValid) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    loadRecords(parseDateKey(from), parseDateKey(to))
+      .then((loaded) => {
+        if (cancelled) return;
+        setRecords(loaded);
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setRecords([]);
+        setError(`Could not read your history: ${err instanceof Error ? err.message : err}`);
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, rangeValid, loadRecords]);
+
+  const habits = collectHabits(records);
+  const isSelected = (id: string) => selectedIds === null || selectedIds.has(id);
+  const habitIds = habits.map((h) => h.id).filter(isSelected);
+
+  const toggleHabit = (id: string) => {
+    const next = new Set(selectedIds ?? habits.map((h) => h.id));
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const download = (format: 'csv' | 'ics') => {
+    const options = { from: parseDateKey(from), to: parseDateKey(to), today, habitIds, metrics };
+    if (format === 'csv') {
+      downloadFile(`habit-history-${from}-to-${to}.csv`, buildCsv(records, options), 'text/csv');
+    } else {
+      downloadFile(`habit-history-${from}-to-${to}.ics`, buildIcs(records, options), 'text/calendar');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-md mx-4 flex flex-col max-h-[80vh]">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">Export History</h3>
+
+        <div className="flex gap-2 mb-4 text-xs">
+          <label className="flex-1 flex flex-col gap-1 text-gray-600 font-semibold">
+            From
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 font-normal"
+            />
+          </label>
+          <label className="flex-1 flex flex-col gap-1 text-gray-600 font-semibold">
+            To
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 font-normal"
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-between items-center text-xs font-semibold text-gray-600 mb-1">
+          <span>Habits</span>
+          <div className="flex gap-2 font-normal">
+            <button onClick={() => setSelectedIds(null)} className="text-blue-600 hover:underline">All</button>
+            <button onClick={() => setSelectedIds(new Set())} className="text-blue-600 hover:underline">None</button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto border border-gray-200 rounded p-2 space-y-1 text-xs min-h-[80px]">
+          {!rangeValid && <div className="text-red-500 italic">Choose a start date on or before the end date</div>}
+          {rangeValid && loading && <div className="text-gray-500 italic">Loading...</div>}
+          {rangeValid && !loading && error && <div className="text-red-500 italic">{error}</div>}
+          {rangeValid && !loading && !error && habits.length === 0 && (
+            <div className="text-gray-500 italic">No stored data in this range</div>
+          )}
+          {rangeValid && !loading && habits.map((h) => (
+            <label key={h.id} className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={isSelected(h.id)} onChange={() => toggleHabit(h.id)} />
+              <span>{h.icon}</span>
+              <span className="text-gray-700">{h.name}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => download('csv')}
+            disabled={!rangeValid || loading || habitIds.length === 0}
+            className="px-4 py-2 text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 rounded text-sm font-medium transition-colors shadow-sm"
+          >
+            CSV
+          </button>
+          <button
+            onClick={() => download('ics')}
+            disabled={!rangeValid || loading || habitIds.length === 0}
+            className="px-4 py-2 text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 rounded text-sm font-medium transition-colors shadow-sm"
+          >
+            Calendar (.ics)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { ImportMode, MonthImportPlan } from '../types';
+
+interface ImportPreviewModalProps {
+  fileName: string;
+  mode: ImportMode;
+  plans: MonthImportPlan[];
+  onModeChange: (mode: ImportMode) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ACTION_LABELS: Record<MonthImportPlan['action'], string> = {
+  create: 'New month',
+  replace: 'Replace',
+  merge: 'Merge',
+  unchanged: 'No changes',
+};
+
+const ACTION_STYLES: Record<MonthImportPlan['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  replace: 'bg-red-100 text-red-700',
+  merge: 'bg-blue-100 text-blue-700',
+  unchanged: 'bg-gray-100 text-gray-500',
+};
+
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
+  fileName,
+  mode,
+  plans,
+  onModeChange,
+  onConfirm,
+  onCancel,
+}) => {
+  const changedCount = plans.filter((p) => p.action !== 'unchanged').length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-lg mx-4 flex flex-col max-h-[80vh]">
+        <h3 className="text-lg font-bold text-gray-800 mb-1">Import Backup</h3>
+        <p className="text-xs text-gray-500 mb-4 truncate">{fileName}</p>
+
+        <div className="flex gap-2 mb-4 text-xs">
+          {(['merge', 'replace'] as ImportMode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => onModeChange(m)}
+              className={`flex-1 px-3 py-2 rounded border text-left ${
+                mode === m ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <span className="font-semibold block">{m === 'merge' ? 'Merge' : 'Replace'}</span>
+              {m === 'merge'
+                ? 'Combine by habit; the more recently updated month wins.'
+                : 'The habits and months in the file overwrite the ones on this device.'}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-100 text-xs">
+          {plans.map((plan) => (
+            <div key={`${plan.year}-${plan.month}`} className="p-2">
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-semibold text-gray-700">
+                  {new Date(plan.year, plan.month).toLocaleString('default', { month: 'long', year: 'numeric' })}
+                </span>
+                <span className={`px-2 py-0.5 rounded text-[10px] font-semibold ${ACTION_STYLES[plan.action]}`}>
+                  {ACTION_LABELS[plan.action]}
+                </span>
+              </div>
+              {plan.action !== 'unchanged' && (
+                <ul className="text-gray-600 space-y-0.5">
+                  {plan.habitsAdded.length > 0 && <li>+ Added: {plan.habitsAdded.join(', ')}</li>}
+                  {plan.habitsUpdated.length > 0 && <li>~ Updated: {plan.habitsUpdated.join(', ')}</li>}
+                  {plan.habitsLocalOnly.length > 0 && (
+                    <li className={plan.action === 'replace' ? 'text-red-600' : undefined}>
+                      {plan.action === 'replace' ? '− Removed' : '= Kept'}: {plan.habitsLocalOnly.join(', ')}
+                    </li>
+                  )}
+                  {plan.mentalDaysChanged > 0 && <li>Mental state: {plan.mentalDaysChanged} day(s)</li>}
+                </ul>
+              )}
+            </div>
+          ))}
+          {plans.length === 0 && <div className="text-center text-gray-500 italic py-4">The backup contains no months</div>}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={changedCount === 0}
+            className="px-4 py-2 text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 rounded text-sm font-medium transition-colors shadow-sm"
+          >
+            Import {changedCount} month{changedCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
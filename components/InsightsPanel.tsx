@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HabitInsight, MetricDefinition, MonthRecord, WeekStart } from '../types';
+import { AnalysisChart } from './AnalysisChart';
+import { getLogicalToday } from '../utils/dates';
+import { computeInsights, describeCorrelation, getSampleWarning } from '../utils/insights';
+
+interface InsightsPanelProps {
+  year: number;
+  month: number; // Last month of the range, 0-indexed
+  weekStart: WeekStart;
+  dayStart: number; // Minutes after midnight a new day begins
+  metrics: MetricDefinition[];
+  loadRecords: (from: Date, to: Date) => Promise<MonthRecord[]>;
+  onClose: () => void;
+}
+
+type Lag = 'sameDay' | 'nextDay';
+
+const RANGE_OPTIONS = [1, 3, 6, 12];
+
+const formatRating = (value: number | null) => (value === null ? '–' : value.toFixed(1));
+
+const correlationClass = (r: number | null) => {
+  if (r === null || Math.abs(r) < 0.1) return 'text-gray-500';
+  return r > 0 ? 'text-green-600' : 'text-red-500';
+};
+
+export const InsightsPanel: React.FC<InsightsPanelProps> = ({ year, month, weekStart, dayStart, metrics, loadRecords, onClose }) => {
+  const [monthsBack, setMonthsBack] = useState(3);
+  const [metricId, setMetricId] = useState(metrics[0]?.id ?? '');
+  const [lag, setLag] = useState<Lag>('sameDay');
+  const [insights, setInsights] = useState<HabitInsight[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = useMemo(() => new Date(year, month - monthsBack + 1, 1), [year, month, monthsBack]);
+  const to = useMemo(() => new Date(year, month + 1, 0), [year, month]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setInsights(null);
+    setError(null);
+    loadRecords(from, to)
+      .then((records) => {
+        if (!cancelled) setInsights(computeInsights(records, metrics, weekStart, getLogicalToday(new Date(), dayStart)));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Could not load insights: ${err instanceof Error ? err.message : err}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, weekStart, dayStart, metrics, loadRecords]);
+
+  const metric = metrics.find((m) => m.id === metricId) ?? metrics[0];
+  const rows = (insights && metric ? insights : []).flatMap((h) => {
+    const comparison = h[lag][metric.id];
+    return comparison ? [{ habit: h, comparison, warning: getSampleWarning(comparison) }] : [];
+  });
+  const label = (row: typeof rows[number]) => `${row.habit.icon} ${row.habit.name}${row.warning ? '*' : ''}`;
+  const metricName = metric?.name ?? 'Metric';
+
+  const averageChartData = rows.map((row) => ({
+    habit: label(row),
+    done: row.comparison.doneAvg === null ? null : Number(row.comparison.doneAvg.toFixed(2)),
+    skipped: row.comparison.skippedAvg === null ? null : Number(row.comparison.skippedAvg.toFixed(2)),
+  }));
+  const correlationChartData = rows.map((row) => ({
+    habit: label(row),
+    r: row.comparison.correlation === null ? 0 : Number(row.comparison.correlation.toFixed(2)),
+  }));
+
+  const rangeLabel = `${from.toLocaleString('default', { month: 'short', year: 'numeric' })} – ${to.toLocaleString('default', { month: 'short', year: 'numeric' })}`;
+
+  return (
+    <div className="bg-white border border-gray-300 rounded-sm shadow-sm p-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6 text-xs">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={monthsBack}
+            onChange={(e) => setMonthsBack(Number(e.target.value))}
+            className="border border-gray-300 rounded px-2 py-1 bg-white"
+          >
+            {RANGE_OPTIONS.map((n) => (
+              <option key={n} value={n}>{n === 1 ? 'This month' : `Last ${n} months`}</option>
+            ))}
+          </select>
+          {metrics.map((m) => (
+            <button
+              key={m.id}
+              onClick={() => setMetricId(m.id)}
+              className={`px-3 py-1 rounded border ${metric?.id === m.id ? 'bg-gray-700 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'}`}
+            >
+              {m.name}
+            </button>
+          ))}
+          {(['sameDay', 'nextDay'] as Lag[]).map((l) => (
+            <button
+              key={l}
+              onClick={() => setLag(l)}
+              className={`px-3 py-1 rounded border ${lag === l ? 'bg-gray-700 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'}`}
+            >
+              {l === 'sameDay' ? 'Same day' : 'Next day'}
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded text-gray-700">Month view</button>
+      </div>
+
+      <h2 className="text-2xl font-bold text-gray-700 mb-1">Insights</h2>
+      <p className="text-gray-500 mb-6">
+        {metricName} {lag === 'sameDay' ? 'on the same day' : 'on the following day'} as each habit, {rangeLabel}
+      </p>
+
+      {error ? (
+        <div className="text-center text-red-500 py-8">{error}</div>
+      ) : !insights ? (
+        <div className="text-center text-gray-500 py-8">Loading insights...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-center text-gray-500 italic py-8">No data stored for this range</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
+            <div>
+              <h3 className="text-xs font-bold text-gray-600 mb-1">Average {metricName.toLowerCase()}: done vs. skipped</h3>
+              <AnalysisChart
+                variant="bar"
+                xKey="habit"
+                data={averageChartData}
+                dataKeys={[
+                  { key: 'done', name: 'Done', color: '#16a34a', fill: '#86efac' },
+                  { key: 'skipped', name: 'Skipped', color: '#9ca3af', fill: '#e5e7eb' },
+                ]}
+                yDomain={metric ? [metric.min, metric.max] : undefined}
+                height={220}
+              />
+            </div>
+            <div>
+              <h3 className="text-xs font-bold text-gray-600 mb-1">Correlation (−1 to 1)</h3>
+              <AnalysisChart
+                variant="bar"
+                xKey="habit"
+                data={correlationChartData}
+                dataKeys={[{ key: 'r', name: 'Correlation', color: '#8884d8', fill: '#c7d2fe' }]}
+                yDomain={[-1, 1]}
+                referenceY={0}
+                height={220}
+              />
+            </div>
+          </div>
+
+          {/* Per-habit table */}
+          <table className="w-full text-xs mb-4">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-300">
+                <th className="py-1">Habit</th>
+                <th className="py-1 text-right">Done (days)</th>
+                <th className="py-1 text-right">Skipped (days)</th>
+                <th className="py-1 text-right">Difference</th>
+                <th className="py-1 text-right">Correlation</th>
+                <th className="py-1 pl-4">Sample</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ habit, comparison, warning }) => {
+                const { doneAvg, skippedAvg, correlation } = comparison;
+                const difference = doneAvg !== null && skippedAvg !== null ? doneAvg - skippedAvg : null;
+                return (
+                  <tr key={habit.id} className={`border-b border-gray-100 ${warning ? 'text-gray-400' : ''}`}>
+                    <td className="py-1 text-gray-700">{habit.icon} {habit.name}</td>
+                    <td className="py-1 text-right">{formatRating(doneAvg)} ({comparison.doneCount})</td>
+                    <td className="py-1 text-right">{formatRating(skippedAvg)} ({comparison.skippedCount})</td>
+                    <td className="py-1 text-right font-bold">
+                      {difference === null ? '–' : `${difference >= 0 ? '+' : ''}${difference.toFixed(1)}`}
+                    </td>
+                    <td className={`py-1 text-right ${warning ? '' : correlationClass(correlation)}`}>
+                      {correlation === null ? '–' : correlation.toFixed(2)} <span className="text-[10px]">({describeCorrelation(correlation)})</span>
+                    </td>
+                    <td className="py-1 pl-4">
+                      {warning ? <span className="text-yellow-700" title={warning}>⚠ Too little data</span> : <span className="text-gray-500">{comparison.pairs} days</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <p className="text-[10px] text-gray-500">
+            * Too little data to trust: hover the warning for details. Only scheduled days with a rating count, and days nothing was logged on are left out; partially
+            done amounts count toward the correlation but not the done/skipped averages. Correlation shows that two things
+            move together, not that one causes the other.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { HabitKind } from '../types';
+
+interface MeasureEditorProps {
+  kind: HabitKind;
+  unit: string;
+  target: number;
+  onChange: (kind: HabitKind, unit: string, target: number) => void;
+}
+
+export const MeasureEditor: React.FC<MeasureEditorProps> = ({ kind, unit, target, onChange }) => {
+  return (
+    <div className="flex items-center gap-1 text-[10px] font-normal text-gray-600 w-full">
+      <select
+        value={kind}
+        onChange={(e) => onChange(e.target.value as HabitKind, unit, target)}
+        className="bg-white border border-blue-400 rounded-sm py-0.5 outline-none"
+      >
+        <option value="boolean">Check</option>
+        <option value="quantity">Amount</option>
+        <option value="quit">Quit</option>
+      </select>
+
+      {kind === 'quantity' && (
+        <>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={target}
+            onChange={(e) => onChange(kind, unit, Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-12 bg-white border border-blue-400 rounded-sm px-1 outline-none"
+            title="Daily target"
+          />
+          <input
+            type="text"
+            value={unit}
+            onChange={(e) => onChange(kind, e.target.value, target)}
+            className="flex-1 min-w-0 bg-white border border-blue-400 rounded-sm px-1 outline-none"
+            placeholder="unit"
+          />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { MetricDefinition } from '../types';
+
+interface MetricInputProps {
+  metric: MetricDefinition;
+  value: number | undefined;
+  onChange: (text: string) => void;
+  disabled?: boolean; // Shown but read-only, for locked days
+}
+
+const COMPLETE_NUMBER = /^-?(\d+\.?\d*|\.\d+)$/;
+
+/**
+ * Grid cell for one metric on one day. While focused it shows what was typed, so a
+ * half-typed "7" or "72." isn't replaced by the rounded and clamped stored value.
+ */
+export const MetricInput: React.FC<MetricInputProps> = ({ metric, value, onChange, disabled }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <input
+      type="text"
+      inputMode={metric.step < 1 || metric.min < 0 ? 'decimal' : 'numeric'}
+      className="w-full text-center text-[10px] bg-transparent focus:bg-white focus:outline-none focus:ring-1 focus:ring-blue-300"
+      value={draft ?? (value === undefined ? '' : String(value))}
+      onChange={(e) => {
+        const text = e.target.value;
+        setDraft(text);
+        if (text.trim() === '' || COMPLETE_NUMBER.test(text.trim())) onChange(text);
+      }}
+      onBlur={() => setDraft(null)}
+      readOnly={disabled}
+      placeholder="-"
+      title={`${metric.name}: ${metric.min}–${metric.max}${metric.unit ? ` ${metric.unit}` : ''}`}
+    />
+  );
+};
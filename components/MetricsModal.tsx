@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { MetricDefinition } from '../types';
+
+interface MetricsModalProps {
+  metrics: MetricDefinition[];
+  onSave: (metrics: MetricDefinition[]) => void;
+  onCancel: () => void;
+}
+
+const NEW_METRIC_COLORS = ['#10b981', '#3b82f6', '#ef4444', '#8b5cf6', '#ec4899', '#84cc16'];
+
+const getProblem = (metric: MetricDefinition) => {
+  if (!metric.name.trim()) return 'Needs a name';
+  if (!Number.isFinite(metric.min) || !Number.isFinite(metric.max) || metric.min >= metric.max) return 'Min must be below max';
+  if (!Number.isFinite(metric.step) || metric.step <= 0) return 'Step must be above 0';
+  return null;
+};
+
+/**
+ * Edits the daily metrics shown under the habits. Removing a metric hides it; values
+ * already recorded for it stay in the stored months.
+ */
+export const MetricsModal: React.FC<MetricsModalProps> = ({ metrics, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(metrics);
+  const valid = draft.every((m) => getProblem(m) === null);
+
+  const update = (id: string, changes: Partial<MetricDefinition>) =>
+    setDraft((prev) => prev.map((m) => (m.id === id ? { ...m, ...changes } : m)));
+
+  const add = () =>
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: `metric-${Date.now()}`,
+        name: '',
+        min: 1,
+        max: 10,
+        step: 1,
+        color: NEW_METRIC_COLORS[prev.length % NEW_METRIC_COLORS.length],
+      },
+    ]);
+
+  const save = () =>
+    onSave(
+      draft.map(({ unit, ...m }) => ({ ...m, name: m.name.trim(), ...(unit?.trim() ? { unit: unit.trim() } : {}) }))
+    );
+
+  const numberInput = (metric: MetricDefinition, field: 'min' | 'max' | 'step', label: string) => (
+    <label className="flex flex-col text-[10px] text-gray-500">
+      {label}
+      <input
+        type="number"
+        value={Number.isNaN(metric[field]) ? '' : metric[field]}
+        step="any"
+        onChange={(e) => update(metric.id, { [field]: parseFloat(e.target.value) })}
+        className="w-16 border border-gray-300 rounded px-1 py-0.5 text-xs text-gray-800"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-lg mx-4 flex flex-col max-h-[90vh]">
+        <h3 className="text-lg font-bold text-gray-800 mb-1">Daily Metrics</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Rated or measured once a day, like mood, sleep hours or weight. Removing a metric keeps the values already
+          recorded.
+        </p>
+
+        <div className="space-y-2 overflow-y-auto">
+          {draft.map((metric) => {
+            const problem = getProblem(metric);
+            return (
+              <div key={metric.id} className="border border-gray-200 rounded p-2">
+                <div className="flex flex-wrap items-end gap-2">
+                  <input
+                    type="color"
+                    value={metric.color}
+                    onChange={(e) => update(metric.id, { color: e.target.value })}
+                    className="w-8 h-7 border border-gray-300 rounded"
+                    title="Chart color"
+                  />
+                  <label className="flex flex-col flex-1 min-w-[8rem] text-[10px] text-gray-500">
+                    Name
+                    <input
+                      type="text"
+                      value={metric.name}
+                      onChange={(e) => update(metric.id, { name: e.target.value })}
+                      placeholder="e.g. Sleep"
+                      className="border border-gray-300 rounded px-1 py-0.5 text-xs text-gray-800"
+                    />
+                  </label>
+                  {numberInput(metric, 'min', 'Min')}
+                  {numberInput(metric, 'max', 'Max')}
+                  {numberInput(metric, 'step', 'Step')}
+                  <label className="flex flex-col text-[10px] text-gray-500">
+                    Unit
+                    <input
+                      type="text"
+                      value={metric.unit ?? ''}
+                      onChange={(e) => update(metric.id, { unit: e.target.value })}
+                      placeholder="e.g. h"
+                      className="w-14 border border-gray-300 rounded px-1 py-0.5 text-xs text-gray-800"
+                    />
+                  </label>
+                  <button
+                    onClick={() => setDraft((prev) => prev.filter((m) => m.id !== metric.id))}
+                    className="px-2 py-1 text-red-500 hover:bg-red-50 rounded text-xs"
+                    title="Remove metric"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {problem && <p className="text-[10px] text-red-500 mt-1">{problem}</p>}
+              </div>
+            );
+          })}
+          {draft.length === 0 && <p className="text-xs text-gray-500 italic">No metrics</p>}
+        </div>
+
+        <button onClick={add} className="mt-2 self-start text-xs text-blue-600 hover:underline">
+          + Add metric
+        </button>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={!valid}
+            className="px-4 py-2 text-white bg-blue-500 hover:bg-blue-600 rounded text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
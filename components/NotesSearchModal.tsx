@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { NoteMatch } from '../types';
+
+interface NotesSearchModalProps {
+  search: (query: string) => Promise<NoteMatch[]>;
+  onSelect: (match: NoteMatch) => void;
+  onClose: () => void;
+}
+
+// Wait for a pause in typing, since every search reads all stored months
+const SEARCH_DELAY = 250;
+
+export const NotesSearchModal: React.FC<NotesSearchModalProps> = ({ search, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<NoteMatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      search(query)
+        .then((matches) => {
+          if (!cancelled) setResults(matches);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          setResults(null);
+          setError(`Could not search your notes: ${err instanceof Error ? err.message : err}`);
+        });
+    }, SEARCH_DELAY);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query, search]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-lg mx-4 flex flex-col max-h-[80vh]">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">Search Notes</h3>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search journal entries and check notes"
+          className="w-full border border-gray-300 rounded px-2 py-1.5 text-sm mb-3 focus:outline-none focus:ring-1 focus:ring-blue-300"
+          autoFocus
+        />
+
+        <div className="flex-1 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-100 text-xs min-h-[80px]">
+          {error && <div className="text-center text-red-500 py-4">{error}</div>}
+          {!error && !results && <div className="text-center text-gray-500 italic py-4">Type to search all months</div>}
+          {results?.length === 0 && <div className="text-center text-gray-500 italic py-4">No matching notes</div>}
+          {results?.map((match) => (
+            <button
+              key={`${match.year}-${match.month}-${match.dayIndex}-${match.habit?.id ?? 'journal'}`}
+              onClick={() => onSelect(match)}
+              className="w-full text-left p-2 hover:bg-gray-50"
+            >
+              <div className="flex justify-between gap-2 text-[10px] text-gray-500 mb-0.5">
+                <span className="truncate">{match.habit ? `${match.habit.icon} ${match.habit.name}` : '📝 Journal'}</span>
+                <span className="flex-shrink-0">
+                  {new Date(match.year, match.month, match.dayIndex + 1).toLocaleDateString('default', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })}
+                </span>
+              </div>
+              <div className="text-gray-700 line-clamp-2 whitespace-pre-line">{match.text}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
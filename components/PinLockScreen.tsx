@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { canUsePins, verifyPin } from '../services/profiles';
+
+interface PinLockScreenProps {
+  profile: Profile; // Locked profile; must have a PIN
+  profiles: Profile[];
+  onUnlock: () => void;
+  onSwitchProfile: (id: string) => void;
+}
+
+export const PinLockScreen: React.FC<PinLockScreenProps> = ({ profile, profiles, onUnlock, onSwitchProfile }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const others = profiles.filter((p) => p.id !== profile.id);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await verifyPin(profile.pin!, pin)) {
+      onUnlock();
+    } else {
+      setError('Wrong PIN');
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4 font-sans text-sm text-gray-800">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-xs">
+        <h1 className="text-lg font-bold text-gray-800 mb-1">🔒 {profile.name}</h1>
+        {canUsePins() ? (
+          <form onSubmit={submit}>
+            <p className="text-xs text-gray-500 mb-4">Enter the PIN to open this profile.</p>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoFocus
+              value={pin}
+              onChange={(e) => {
+                setPin(e.target.value);
+                setError(null);
+              }}
+              className="w-full text-center text-lg tracking-widest border border-gray-300 rounded p-2 focus:outline-none focus:ring-2 focus:ring-blue-300"
+            />
+            {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+            <button
+              type="submit"
+              disabled={!pin}
+              className="w-full mt-4 px-4 py-2 text-white bg-blue-500 hover:bg-blue-600 rounded text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+            >
+              Unlock
+            </button>
+          </form>
+        ) : (
+          <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-300 rounded p-2">
+            PINs can only be checked when the app is opened over https.
+          </p>
+        )}
+
+        {others.length > 0 && (
+          <div className="border-t border-gray-200 mt-6 pt-4">
+            <p className="text-xs text-gray-500 mb-2">Not you?</p>
+            <div className="flex flex-wrap gap-2">
+              {others.map((p) => (
+                <button
+                  key={p.id}
+                  onClick={() => onSwitchProfile(p.id)}
+                  className="px-3 py-1 bg-white border border-gray-300 rounded-sm text-gray-600 hover:bg-gray-100 text-xs transition-colors"
+                >
+                  {p.pin && '🔒 '}
+                  {p.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Profile, ProfileList } from '../types';
+import { getProfileNamespace, loadProfiles, saveProfiles } from '../services/profiles';
+import { PinLockScreen } from './PinLockScreen';
+
+// What the tracker gets to know about, and do with, the profiles on this device
+export interface ProfileSession {
+  profile: Profile; // Active, unlocked profile
+  namespace: string; // Storage namespace of the active profile
+  list: ProfileList;
+  setList: (list: ProfileList) => void;
+  switchProfile: (id: string) => void;
+  lock: () => void;
+}
+
+interface ProfileGateProps {
+  children: (session: ProfileSession) => React.ReactNode;
+}
+
+/**
+ * Owns the list of profiles and renders the tracker for the active one, asking for its
+ * PIN first when it has one. A profile stays unlocked until the user locks it, switches
+ * away or reloads the page.
+ */
+export const ProfileGate: React.FC<ProfileGateProps> = ({ children }) => {
+  const [list, setList] = useState(loadProfiles);
+  const profile = list.profiles.find((p) => p.id === list.activeId)!;
+  const [locked, setLocked] = useState(() => !!profile.pin);
+
+  useEffect(() => {
+    saveProfiles(list);
+  }, [list]);
+
+  const switchProfile = useCallback(
+    (id: string) => {
+      const next = list.profiles.find((p) => p.id === id);
+      if (!next) return;
+      setLocked(!!next.pin);
+      setList({ ...list, activeId: id });
+    },
+    [list]
+  );
+
+  const lock = useCallback(() => setLocked(true), []);
+
+  if (locked && profile.pin) {
+    return (
+      <PinLockScreen
+        key={profile.id}
+        profile={profile}
+        profiles={list.profiles}
+        onUnlock={() => setLocked(false)}
+        onSwitchProfile={switchProfile}
+      />
+    );
+  }
+
+  return <>{children({ profile, namespace: getProfileNamespace(profile.id), list, setList, switchProfile, lock })}</>;
+};
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { ProfileList } from '../types';
+import {
+  DEFAULT_PROFILE_ID,
+  addProfile,
+  canUsePins,
+  createPinLock,
+  isValidPin,
+  removeProfile,
+  updateProfile,
+  verifyPin,
+} from '../services/profiles';
+
+interface ProfilesModalProps {
+  list: ProfileList;
+  onChange: (list: ProfileList) => void;
+  onClose: () => void;
+}
+
+/**
+ * Adds, renames and deletes the profiles on this device, and sets the active profile's
+ * PIN. Other profiles' PINs can only be changed from inside them.
+ */
+export const ProfilesModal: React.FC<ProfilesModalProps> = ({ list, onChange, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [newPin, setNewPin] = useState<string | null>(null); // Draft PIN while setting one
+  const [deleting, setDeleting] = useState<{ id: string; pin: string; error?: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const create = () => {
+    const { list: added, profile } = addProfile(list, newName);
+    onChange({ ...added, activeId: profile.id }); // Opens the new profile
+  };
+
+  const savePin = async () => {
+    if (newPin === null || !isValidPin(newPin)) return;
+    setBusy(true);
+    onChange(updateProfile(list, list.activeId, { pin: await createPinLock(newPin) }));
+    setNewPin(null);
+    setBusy(false);
+  };
+
+  const removePin = () => {
+    const { pin: _removed, ...profile } = list.profiles.find((p) => p.id === list.activeId)!;
+    onChange({ ...list, profiles: list.profiles.map((p) => (p.id === profile.id ? profile : p)) });
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    const profile = list.profiles.find((p) => p.id === deleting.id)!;
+    setBusy(true);
+    try {
+      if (profile.pin && !(await verifyPin(profile.pin, deleting.pin))) {
+        setDeleting({ ...deleting, pin: '', error: 'Wrong PIN' });
+        return;
+      }
+      onChange(await removeProfile(list, profile.id));
+      setDeleting(null);
+    } catch (e) {
+      setError(`Could not delete the profile: ${e instanceof Error ? e.message : e}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-md mx-4 flex flex-col max-h-[90vh]">
+        <h3 className="text-lg font-bold text-gray-800 mb-1">Profiles</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Each profile has its own habits, history, metrics and settings on this device.
+        </p>
+
+        {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+        <div className="border border-gray-200 rounded divide-y divide-gray-100 overflow-y-auto">
+          {list.profiles.map((profile) => {
+            const active = profile.id === list.activeId;
+            return (
+              <div key={profile.id} className="p-2 text-xs text-gray-700">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={profile.name}
+                    onChange={(e) => onChange(updateProfile(list, profile.id, { name: e.target.value }))}
+                    className="flex-1 min-w-0 border border-gray-300 rounded px-1 py-0.5 text-xs text-gray-800"
+                  />
+                  {profile.pin && <span title="Has a PIN">🔒</span>}
+                  {active ? (
+                    <span className="text-gray-400">Open</span>
+                  ) : (
+                    profile.id !== DEFAULT_PROFILE_ID && (
+                      <button
+                        onClick={() => setDeleting({ id: profile.id, pin: '' })}
+                        className="px-2 py-1 text-red-500 hover:bg-red-50 rounded"
+                      >
+                        Delete
+                      </button>
+                    )
+                  )}
+                </div>
+
+                {active && canUsePins() && (
+                  <div className="flex items-center gap-2 mt-2">
+                    {newPin === null ? (
+                      <>
+                        <button onClick={() => setNewPin('')} className="text-blue-600 hover:underline">
+                          {profile.pin ? 'Change PIN' : 'Set a PIN'}
+                        </button>
+                        {profile.pin && (
+                          <button onClick={removePin} className="text-blue-600 hover:underline">
+                            Remove PIN
+                          </button>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        <input
+                          type="password"
+                          inputMode="numeric"
+                          autoFocus
+                          value={newPin}
+                          onChange={(e) => setNewPin(e.target.value)}
+                          placeholder="4-8 digits"
+                          className="w-24 border border-gray-300 rounded px-1 py-0.5"
+                        />
+                        <button
+                          onClick={savePin}
+                          disabled={busy || !isValidPin(newPin)}
+                          className="px-2 py-0.5 text-white bg-blue-500 hover:bg-blue-600 rounded disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                        <button onClick={() => setNewPin(null)} className="text-gray-500 hover:underline">
+                          Cancel
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {deleting?.id === profile.id && (
+                  <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded">
+                    <p className="text-red-700 mb-2">Delete {profile.name || 'this profile'} and all of its data?</p>
+                    <div className="flex items-center gap-2">
+                      {profile.pin && (
+                        <input
+                          type="password"
+                          inputMode="numeric"
+                          value={deleting.pin}
+                          onChange={(e) => setDeleting({ id: profile.id, pin: e.target.value })}
+                          placeholder="PIN"
+                          className="w-20 border border-gray-300 rounded px-1 py-0.5"
+                        />
+                      )}
+                      <button
+                        onClick={confirmDelete}
+                        disabled={busy || (!!profile.pin && !deleting.pin)}
+                        className="px-2 py-0.5 text-white bg-red-500 hover:bg-red-600 rounded disabled:opacity-50"
+                      >
+                        Delete
+                      </button>
+                      <button onClick={() => setDeleting(null)} className="text-gray-500 hover:underline">
+                        Cancel
+                      </button>
+                    </div>
+                    {deleting.error && <p className="text-red-500 mt-1">{deleting.error}</p>}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-2 mt-4">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && newName.trim() && create()}
+            placeholder="New profile name"
+            className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <button
+            onClick={create}
+            disabled={!newName.trim()}
+            className="px-3 py-1 text-white bg-blue-500 hover:bg-blue-600 rounded text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+
+interface QuantityInputProps {
+  value: number | undefined; // Amount logged that day
+  className: string;
+  placeholder: string;
+  title: string;
+  readOnly?: boolean;
+  onCommit: (text: string) => void;
+}
+
+/**
+ * Grid cell for a quantity habit's daily amount. Typing edits a draft that is committed
+ * on Enter or when the cell loses focus, so a half-typed "1." on the way to "1.5" isn't
+ * parsed back to "1".
+ */
+export const QuantityInput: React.FC<QuantityInputProps> = ({ value, className, placeholder, title, readOnly, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const shown = value ? String(value) : '';
+
+  const commit = () => {
+    if (draft === null) return;
+    if (draft.trim() !== shown) onCommit(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      className={className}
+      value={draft ?? shown}
+      onChange={(e) => setDraft(e.target.value)}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      onBlur={commit}
+      readOnly={readOnly}
+      placeholder={placeholder}
+      title={title}
+    />
+  );
+};
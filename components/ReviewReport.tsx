@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MetricDefinition, MonthRecord, PeriodReview, ReviewPeriodKind, WeekStart } from '../types';
+import {
+  buildReview,
+  formatAverage,
+  formatDelta,
+  formatPeriod,
+  formatReviewDay,
+  getPeriod,
+  reviewToMarkdown,
+  shiftPeriod,
+} from '../utils/review';
+import { downloadFile } from '../utils/download';
+import { getLogicalToday, toDateKey } from '../utils/dates';
+
+interface ReviewReportProps {
+  anchor: Date; // Any day inside the first period shown
+  weekStart: WeekStart;
+  dayStart: number; // Minutes after midnight a new day begins
+  metrics: MetricDefinition[];
+  loadRecords: (from: Date, to: Date) => Promise<MonthRecord[]>;
+  onClose: () => void;
+}
+
+const deltaClass = (value: number | null, previous: number | null) => {
+  if (value === null || previous === null || value === previous) return 'text-gray-400';
+  return value > previous ? 'text-green-600' : 'text-red-500';
+};
+
+export const ReviewReport: React.FC<ReviewReportProps> = ({ anchor, weekStart, dayStart, metrics, loadRecords, onClose }) => {
+  const [kind, setKind] = useState<ReviewPeriodKind>('week');
+  const [anchorDate, setAnchorDate] = useState(anchor);
+  const [review, setReview] = useState<PeriodReview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const period = useMemo(() => getPeriod(kind, anchorDate, weekStart), [kind, anchorDate, weekStart]);
+  const previousPeriod = useMemo(() => shiftPeriod(period, -1, weekStart), [period, weekStart]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReview(null);
+    setError(null);
+    loadRecords(previousPeriod.start, period.end)
+      .then((records) => {
+        if (cancelled) return;
+        setReview(buildReview(records, period, previousPeriod, metrics, weekStart, getLogicalToday(new Date(), dayStart)));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Could not load this review: ${err instanceof Error ? err.message : err}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [period, previousPeriod, metrics, weekStart, dayStart, loadRecords]);
+
+  const exportMarkdown = () => {
+    if (!review) return;
+    const { start } = review.period;
+    downloadFile(
+      `habit-review-${kind}-${toDateKey(start.getFullYear(), start.getMonth(), start.getDate())}.md`,
+      reviewToMarkdown(review, weekStart),
+      'text/markdown'
+    );
+  };
+
+  return (
+    <div className="bg-white border border-gray-300 rounded-sm shadow-sm p-6 print:border-0 print:shadow-none print:p-0">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6 text-xs print:hidden">
+        <div className="flex items-center gap-2">
+          {(['week', 'month'] as ReviewPeriodKind[]).map((k) => (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              className={`px-3 py-1 rounded border ${kind === k ? 'bg-gray-700 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-100'}`}
+            >
+              {k === 'week' ? 'Weekly' : 'Monthly'}
+            </button>
+          ))}
+          <button onClick={() => setAnchorDate(shiftPeriod(period, -1, weekStart).start)} className="p-1 hover:bg-gray-200 rounded text-gray-500" title="Previous period">◀</button>
+          <button onClick={() => setAnchorDate(shiftPeriod(period, 1, weekStart).start)} className="p-1 hover:bg-gray-200 rounded text-gray-500" title="Next period">▶</button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => window.print()} className="px-3 py-1 bg-white border border-gray-300 rounded text-gray-600 hover:bg-gray-100">Print</button>
+          <button onClick={exportMarkdown} disabled={!review} className="px-3 py-1 bg-white border border-gray-300 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-50">Export Markdown</button>
+          <button onClick={onClose} className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded text-gray-700">Month view</button>
+        </div>
+      </div>
+
+      <h2 className="text-2xl font-bold text-gray-700 mb-1">{kind === 'week' ? 'Weekly' : 'Monthly'} Review</h2>
+      <p className="text-gray-500 mb-6">{formatPeriod(period, weekStart)}</p>
+
+      {error ? (
+        <div className="text-center text-red-500 py-8">{error}</div>
+      ) : !review ? (
+        <div className="text-center text-gray-500 py-8">Loading review...</div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+            <div className="bg-gray-50 border border-gray-200 rounded p-3">
+              <p className="text-[10px] text-gray-500 uppercase font-semibold">Completion</p>
+              <p className="text-xl font-bold text-gray-800">{review.percent}%</p>
+              <p className={`text-xs ${deltaClass(review.percent, review.previousPercent)}`}>
+                {review.previousPercent === null ? 'No previous data' : `vs. ${review.previousPercent}%${formatDelta(review.percent, review.previousPercent, ' pts')}`}
+              </p>
+            </div>
+            <div className="bg-gray-50 border border-gray-200 rounded p-3">
+              <p className="text-[10px] text-gray-500 uppercase font-semibold">Best day</p>
+              <p className="text-sm font-bold text-gray-800">{formatReviewDay(review.bestDay)}</p>
+            </div>
+            <div className="bg-gray-50 border border-gray-200 rounded p-3">
+              <p className="text-[10px] text-gray-500 uppercase font-semibold">Worst day</p>
+              <p className="text-sm font-bold text-gray-800">{formatReviewDay(review.worstDay)}</p>
+            </div>
+            {review.metrics.map((m) => (
+              <div key={m.id} className="bg-gray-50 border border-gray-200 rounded p-3">
+                <p className="text-[10px] text-gray-500 uppercase font-semibold">Avg. {m.name}</p>
+                <p className="text-xl font-bold text-gray-800">
+                  {formatAverage(m.average)}
+                  {m.unit && m.average !== null && <span className="text-xs font-normal text-gray-500"> {m.unit}</span>}
+                </p>
+                <p className={`text-xs ${deltaClass(m.average, m.previousAverage)}`}>
+                  {formatDelta(m.average, m.previousAverage) || '–'}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Per-habit table */}
+          <table className="w-full text-xs mb-6">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-300">
+                <th className="py-1">Habit</th>
+                <th className="py-1 text-right">Done</th>
+                <th className="py-1 text-right">Goal</th>
+                <th className="py-1 w-1/3 pl-4">Completion</th>
+                <th className="py-1 text-right">vs. previous</th>
+              </tr>
+            </thead>
+            <tbody>
+              {review.habits.map((h) => (
+                <tr key={h.id} className="border-b border-gray-100">
+                  <td className="py-1">{h.icon} {h.name}</td>
+                  <td className="py-1 text-right font-bold">{Number.isInteger(h.done) ? h.done : h.done.toFixed(1)}</td>
+                  <td className="py-1 text-right text-gray-600">{h.goal}</td>
+                  <td className="py-1 pl-4">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 bg-gray-100 h-3 border border-gray-300 rounded-sm overflow-hidden">
+                        <div className="h-full bg-green-400" style={{ width: `${h.percent}%` }} />
+                      </div>
+                      <span className="w-8 text-right">{h.percent}%</span>
+                    </div>
+                  </td>
+                  <td className={`py-1 text-right ${deltaClass(h.percent, h.previousPercent)}`}>
+                    {h.previousPercent === null ? 'new' : formatDelta(h.percent, h.previousPercent, ' pts').trim()}
+                  </td>
+                </tr>
+              ))}
+              {review.habits.length === 0 && (
+                <tr><td colSpan={5} className="text-center text-gray-500 italic py-4">No data for this period</td></tr>
+              )}
+            </tbody>
+          </table>
+
+          {/* Added / removed */}
+          {(review.habitsAdded.length > 0 || review.habitsRemoved.length > 0) && (
+            <div className="text-xs text-gray-600 space-y-1">
+              <h3 className="font-bold text-gray-700 text-sm mb-1">Changes</h3>
+              {review.habitsAdded.length > 0 && <p><span className="text-green-600 font-semibold">Added:</span> {review.habitsAdded.join(', ')}</p>}
+              {review.habitsRemoved.length > 0 && <p><span className="text-red-500 font-semibold">Removed:</span> {review.habitsRemoved.join(', ')}</p>}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
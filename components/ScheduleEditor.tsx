@@ -0,0 +1,93 @@
+import React from 'react';
+import { HabitSchedule } from '../types';
+import { DAYS_OF_WEEK } from '../constants';
+
+interface ScheduleEditorProps {
+  schedule: HabitSchedule;
+  onChange: (schedule: HabitSchedule) => void;
+}
+
+const clampCount = (value: string, max: number) => Math.min(max, Math.max(1, parseInt(value) || 1));
+
+export const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ schedule, onChange }) => {
+  const handleTypeChange = (type: HabitSchedule['type']) => {
+    switch (type) {
+      case 'daily':
+        onChange({ type });
+        break;
+      case 'weekly':
+        onChange({ type, timesPerWeek: 3 });
+        break;
+      case 'weekdays':
+        onChange({ type, days: [1, 3, 5] });
+        break;
+      case 'monthly':
+        onChange({ type, count: 10 });
+        break;
+    }
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (schedule.type !== 'weekdays') return;
+    const days = schedule.days.includes(weekday)
+      ? schedule.days.filter((d) => d !== weekday)
+      : [...schedule.days, weekday].sort();
+    onChange({ ...schedule, days });
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-[10px] font-normal text-gray-600 w-full">
+      <select
+        value={schedule.type}
+        onChange={(e) => handleTypeChange(e.target.value as HabitSchedule['type'])}
+        className="bg-white border border-blue-400 rounded-sm py-0.5 outline-none"
+      >
+        <option value="daily">Daily</option>
+        <option value="weekly">Per week</option>
+        <option value="weekdays">Weekdays</option>
+        <option value="monthly">Per month</option>
+      </select>
+
+      {schedule.type === 'weekly' && (
+        <input
+          type="number"
+          min={1}
+          max={7}
+          value={schedule.timesPerWeek}
+          onChange={(e) => onChange({ ...schedule, timesPerWeek: clampCount(e.target.value, 7) })}
+          className="w-10 bg-white border border-blue-400 rounded-sm px-1 outline-none"
+        />
+      )}
+
+      {schedule.type === 'monthly' && (
+        <input
+          type="number"
+          min={1}
+          max={31}
+          value={schedule.count}
+          onChange={(e) => onChange({ ...schedule, count: clampCount(e.target.value, 31) })}
+          className="w-10 bg-white border border-blue-400 rounded-sm px-1 outline-none"
+        />
+      )}
+
+      {schedule.type === 'weekdays' && (
+        <div className="flex gap-px">
+          {DAYS_OF_WEEK.map((label, weekday) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(weekday)}
+              className={`px-0.5 rounded-sm border ${
+                schedule.days.includes(weekday)
+                  ? 'bg-blue-500 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-500'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { AppSettings, Habit, SyncSettings, WeekStart } from '../types';
+import { NotificationStatus } from '../services/reminders';
+
+interface SettingsModalProps {
+  settings: AppSettings;
+  habits: Habit[]; // Habits that can get a reminder
+  notificationStatus: NotificationStatus;
+  onChange: (settings: AppSettings) => void;
+  onRequestNotifications: () => void;
+  onClose: () => void;
+}
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+const DEFAULT_GRACE_HOURS = 12;
+const GRACE_HOUR_OPTIONS = [1, 2, 4, 6, 8, 12, 18, 24];
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({
+  settings,
+  habits,
+  notificationStatus,
+  onChange,
+  onRequestNotifications,
+  onClose,
+}) => {
+  const setReminder = (habitId: string, time: string) => {
+    const { [habitId]: _previous, ...rest } = settings.reminders;
+    onChange({ ...settings, reminders: time ? { ...rest, [habitId]: time } : rest });
+  };
+
+  // Edited here and only applied on Connect, so typing doesn't reconnect on every key
+  const [syncDraft, setSyncDraft] = useState<SyncSettings>(
+    () => settings.sync ?? { url: '', space: Math.random().toString(36).slice(2, 10), token: '' }
+  );
+  const connect = () =>
+    onChange({
+      ...settings,
+      sync: {
+        url: syncDraft.url.trim(),
+        space: syncDraft.space.trim(),
+        ...(syncDraft.token?.trim() ? { token: syncDraft.token.trim() } : {}),
+      },
+    });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-sm mx-4 flex flex-col max-h-[90vh]">
+        <h3 className="text-lg font-bold text-gray-800 mb-4">Settings</h3>
+
+        <div className="space-y-4 text-sm overflow-y-auto">
+          <label className="flex items-center justify-between gap-4 text-gray-700">
+            Week starts on
+            <select
+              value={settings.weekStart}
+              onChange={(e) => onChange({ ...settings, weekStart: Number(e.target.value) as WeekStart })}
+              className="border border-gray-300 rounded px-2 py-1"
+            >
+              <option value={0}>Sunday</option>
+              <option value={1}>Monday</option>
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between gap-4 text-gray-700">
+            Day starts at
+            <input
+              type="time"
+              value={settings.dayStart}
+              onChange={(e) => e.target.value && onChange({ ...settings, dayStart: e.target.value })}
+              className="border border-gray-300 rounded px-2 py-1"
+            />
+          </label>
+          <p className="-mt-3 text-xs text-gray-500">Checks made before this time still count for the day before.</p>
+
+          <div>
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings.yesterdayGraceHours !== null}
+                onChange={(e) => onChange({ ...settings, yesterdayGraceHours: e.target.checked ? DEFAULT_GRACE_HOURS : null })}
+              />
+              Lock past days
+            </label>
+            {settings.yesterdayGraceHours !== null && (
+              <label className="flex items-center gap-2 mt-2 ml-6 text-xs text-gray-600">
+                Yesterday stays open for
+                <select
+                  value={settings.yesterdayGraceHours}
+                  onChange={(e) => onChange({ ...settings, yesterdayGraceHours: Number(e.target.value) })}
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                >
+                  {GRACE_HOUR_OPTIONS.map((hours) => (
+                    <option key={hours} value={hours}>
+                      {hours} hour{hours === 1 ? '' : 's'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <p className="mt-1 text-xs text-gray-500">Future days are always locked. Notes and the journal stay editable.</p>
+          </div>
+
+          <div className="border-t border-gray-200 pt-4">
+            <h4 className="font-semibold text-gray-700 mb-1">Reminders</h4>
+            <p className="text-xs text-gray-500 mb-2">
+              A notification at the chosen time, unless the habit is already checked, skipped or excused that day, or isn't scheduled.
+            </p>
+
+            {notificationStatus === 'unsupported' && (
+              <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-300 rounded p-2 mb-2">
+                This browser can't show notifications.
+              </p>
+            )}
+            {notificationStatus === 'denied' && (
+              <p className="text-xs text-yellow-800 bg-yellow-50 border border-yellow-300 rounded p-2 mb-2">
+                Notifications are blocked. Allow them in the browser's site settings to get reminders.
+              </p>
+            )}
+            {notificationStatus === 'default' && (
+              <button
+                onClick={onRequestNotifications}
+                className="w-full mb-2 px-3 py-1.5 text-white bg-blue-500 hover:bg-blue-600 rounded text-xs font-medium transition-colors shadow-sm"
+              >
+                Enable notifications
+              </button>
+            )}
+
+            <div className="border border-gray-200 rounded divide-y divide-gray-100">
+              {habits.map((habit) => (
+                <label key={habit.id} className="flex items-center justify-between gap-2 p-2 text-xs text-gray-700">
+                  <span className="truncate">
+                    {habit.icon} {habit.name}
+                  </span>
+                  <input
+                    type="time"
+                    value={settings.reminders[habit.id] ?? ''}
+                    onChange={(e) => setReminder(habit.id, e.target.value)}
+                    className="border border-gray-300 rounded px-1 py-0.5"
+                  />
+                </label>
+              ))}
+              {habits.length === 0 && <div className="p-2 text-xs text-gray-500 italic">No habits this month</div>}
+            </div>
+          </div>
+
+          <div className="border-t border-gray-200 pt-4">
+            <label className="flex items-center gap-2 font-semibold text-gray-700 mb-2">
+              <input
+                type="checkbox"
+                checked={!!settings.quietHours}
+                onChange={(e) => onChange({ ...settings, quietHours: e.target.checked ? DEFAULT_QUIET_HOURS : null })}
+              />
+              Quiet hours
+            </label>
+            {settings.quietHours && (
+              <div className="flex items-center gap-2 text-xs text-gray-700">
+                From
+                <input
+                  type="time"
+                  value={settings.quietHours.start}
+                  onChange={(e) => e.target.value && onChange({ ...settings, quietHours: { ...settings.quietHours!, start: e.target.value } })}
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                />
+                to
+                <input
+                  type="time"
+                  value={settings.quietHours.end}
+                  onChange={(e) => e.target.value && onChange({ ...settings, quietHours: { ...settings.quietHours!, end: e.target.value } })}
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                />
+              </div>
+            )}
+            <p className="text-[10px] text-gray-400 mt-2">
+              Reminders that fall in quiet hours are skipped. While the app is closed, reminders rely on the browser
+              waking it up, which installed apps on Chrome support.
+            </p>
+          </div>
+
+          <div className="border-t border-gray-200 pt-4">
+            <h4 className="font-semibold text-gray-700 mb-1">Sync</h4>
+            <p className="text-xs text-gray-500 mb-2">
+              Keeps this profile in step with your other devices through a sync server you host. Use the same server
+              and space everywhere; edits made offline sync once the server is reachable again.
+            </p>
+            {settings.sync ? (
+              <div className="flex items-center justify-between gap-2 text-xs text-gray-700">
+                <span className="truncate" title={settings.sync.url}>
+                  {settings.sync.url} · space <span className="font-mono">{settings.sync.space}</span>
+                </span>
+                <button onClick={() => onChange({ ...settings, sync: null })} className="text-red-500 hover:underline">
+                  Disconnect
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-2 text-xs text-gray-700">
+                <input
+                  type="url"
+                  value={syncDraft.url}
+                  onChange={(e) => setSyncDraft({ ...syncDraft, url: e.target.value })}
+                  placeholder="Server URL, e.g. https://sync.example.com"
+                  className="w-full border border-gray-300 rounded px-1 py-0.5"
+                />
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={syncDraft.space}
+                    onChange={(e) => setSyncDraft({ ...syncDraft, space: e.target.value })}
+                    placeholder="Space"
+                    className="flex-1 min-w-0 border border-gray-300 rounded px-1 py-0.5 font-mono"
+                    title="Name of the space your devices share"
+                  />
+                  <input
+                    type="password"
+                    value={syncDraft.token ?? ''}
+                    onChange={(e) => setSyncDraft({ ...syncDraft, token: e.target.value })}
+                    placeholder="Token (optional)"
+                    className="flex-1 min-w-0 border border-gray-300 rounded px-1 py-0.5"
+                  />
+                </div>
+                <button
+                  onClick={connect}
+                  disabled={!syncDraft.url.trim() || !syncDraft.space.trim()}
+                  className="w-full px-3 py-1.5 text-white bg-blue-500 hover:bg-blue-600 rounded text-xs font-medium transition-colors shadow-sm disabled:opacity-50"
+                >
+                  Connect
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React from 'react';
+import { Profile, SyncStatus } from '../types';
 
 interface SummaryHeaderProps {
   monthName: string;
@@ -6,19 +7,66 @@ interface SummaryHeaderProps {
   totalHabits: number;
   totalCompleted: number;
   totalPossible: number;
+  loggedPercent: number | null; // Completion over logged, non-excused days; null when nothing is logged
   onPrevMonth: () => void;
   onNextMonth: () => void;
+  profiles: Profile[];
+  activeProfile: Profile;
+  onSwitchProfile: (id: string) => void;
+  onManageProfiles: () => void;
+  onLock: () => void; // Only offered when the active profile has a PIN
+  syncStatus: SyncStatus;
+  onSyncNow: () => void;
 }
 
+const formatTime = (at: number) => new Date(at).toLocaleTimeString('default', { hour: '2-digit', minute: '2-digit' });
+
+const getSyncLabel = (status: SyncStatus) => {
+  switch (status.state) {
+    case 'off':
+      return null;
+    case 'syncing':
+      return { text: 'Syncing…', className: 'text-gray-500', title: 'Syncing' };
+    case 'synced':
+      if (status.skipped) {
+        return {
+          text: `☁ Synced ${formatTime(status.at)} · ${status.skipped.length} skipped`,
+          className: 'text-yellow-700',
+          title: `The server's copy of ${status.skipped.join(', ')} could not be read, so the local copy was kept. Sync now`,
+        };
+      }
+      return { text: `☁ Synced ${formatTime(status.at)}`, className: 'text-gray-500', title: 'Sync now' };
+    case 'offline':
+      return {
+        text: status.pending > 0 ? `Offline · ${status.pending} queued` : 'Offline',
+        className: 'text-yellow-700',
+        title: 'Edits sync once the server can be reached again',
+      };
+    case 'error':
+      return { text: 'Sync failed', className: 'text-red-600', title: `${status.message}. Click to retry.` };
+  }
+};
+
+const MANAGE_PROFILES = '__manage';
+
 export const SummaryHeader: React.FC<SummaryHeaderProps> = ({
   monthName,
   year,
   totalHabits,
   totalCompleted,
   totalPossible,
+  loggedPercent,
   onPrevMonth,
   onNextMonth,
+  profiles,
+  activeProfile,
+  onSwitchProfile,
+  onManageProfiles,
+  onLock,
+  syncStatus,
+  onSyncNow,
 }) => {
+  const syncLabel = getSyncLabel(syncStatus);
   const percentage = totalPossible > 0 ? (totalCompleted / totalPossible) * 100 : 0;
 
   return (
@@ -44,6 +92,37 @@ export const SummaryHeader: React.FC<SummaryHeaderProps> = ({
         >
           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
         </button>
+
+        <div className="flex items-center gap-1">
+          <select
+            value={activeProfile.id}
+            onChange={(e) => (e.target.value === MANAGE_PROFILES ? onManageProfiles() : onSwitchProfile(e.target.value))}
+            className="max-w-[10rem] border border-gray-300 rounded-sm bg-white px-2 py-1 text-xs text-gray-700"
+            title="Profile"
+          >
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id}>
+                {`${profile.pin ? '🔒 ' : ''}${profile.name || 'Unnamed'}`}
+              </option>
+            ))}
+            <option value={MANAGE_PROFILES}>Manage profiles…</option>
+          </select>
+          {activeProfile.pin && (
+            <button onClick={onLock} className="p-1 hover:bg-gray-200 rounded text-gray-500 transition-colors" title="Lock profile">
+              🔒
+            </button>
+          )}
+          {syncLabel && (
+            <button
+              onClick={onSyncNow}
+              disabled={syncStatus.state === 'syncing'}
+              className={`px-1 text-[10px] whitespace-nowrap hover:underline ${syncLabel.className}`}
+              title={syncLabel.title}
+            >
+              {syncLabel.text}
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="flex flex-1 justify-around items-center w-full max-w-2xl">
@@ -57,6 +136,11 @@ export const SummaryHeader: React.FC<SummaryHeaderProps> = ({
           <p className="text-xl font-bold text-gray-800">{totalCompleted}</p>
         </div>
 
+        <div className="text-center" title="Share done on the days something was logged; excused days are left out">
+          <p className="text-xs text-gray-500 uppercase font-semibold">On logged days</p>
+          <p className="text-xl font-bold text-gray-800">{loggedPercent === null ? '–' : `${loggedPercent}%`}</p>
+        </div>
+
         <div className="flex flex-col items-center min-w-[150px] md:min-w-[200px] flex-1 md:flex-none px-4 md:px-0">
           <div className="flex justify-between w-full text-xs text-gray-500 font-semibold mb-1">
             <span>Progress</span>
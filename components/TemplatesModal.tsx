@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { HabitFields, HabitTemplate } from '../types';
+import { describeSchedule, getSchedule } from '../utils/schedule';
+
+interface TemplatesModalProps {
+  mode: 'onboarding' | 'browse'; // Onboarding is shown to new users with no habits yet
+  templates: HabitTemplate[]; // Built-in packs, then saved templates
+  monthName: string;
+  canSave: boolean; // Whether there are habits to save as a template
+  onApply: (habits: HabitFields[]) => void;
+  onSaveTemplate: (name: string) => void;
+  onDeleteTemplate: (id: string) => void;
+  onClose: () => void;
+}
+
+// Selection key of one habit within a template
+const habitKey = (template: HabitTemplate, index: number) => `${template.id}:${index}`;
+
+/**
+ * Picks habits from template packs and saved templates, and saves the current habits
+ * as a template of their own.
+ */
+export const TemplatesModal: React.FC<TemplatesModalProps> = ({
+  mode,
+  templates,
+  monthName,
+  canSave,
+  onApply,
+  onSaveTemplate,
+  onDeleteTemplate,
+  onClose,
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [templateName, setTemplateName] = useState('');
+
+  const toggle = (keys: string[], on: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      keys.forEach((key) => (on ? next.add(key) : next.delete(key)));
+      return next;
+    });
+
+  const selectedHabits = templates.flatMap((t) => t.habits.filter((_, i) => selected.has(habitKey(t, i))));
+
+  const saveTemplate = () => {
+    onSaveTemplate(templateName);
+    setTemplateName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-xl border border-gray-200 p-6 w-full max-w-2xl mx-4 flex flex-col max-h-[90vh]">
+        <h3 className="text-lg font-bold text-gray-800 mb-1">{mode === 'onboarding' ? 'Welcome! Pick your habits' : 'Habit templates'}</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          {mode === 'onboarding'
+            ? 'Start from one or more packs, then rename or add habits any time. You can also start empty.'
+            : `Selected habits are added from ${monthName} on. Habits you already track are left as they are.`}
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 overflow-y-auto">
+          {templates.map((template) => {
+            const keys = template.habits.map((_, i) => habitKey(template, i));
+            const allSelected = keys.length > 0 && keys.every((key) => selected.has(key));
+            return (
+              <div key={template.id} className="border border-gray-200 rounded p-2 text-xs">
+                <div className="flex items-center gap-2 mb-1">
+                  <label className="flex-1 flex items-center gap-2 font-semibold text-gray-800 text-sm">
+                    <input type="checkbox" checked={allSelected} onChange={(e) => toggle(keys, e.target.checked)} />
+                    {template.icon} {template.name}
+                  </label>
+                  {template.custom && (
+                    <button
+                      onClick={() => onDeleteTemplate(template.id)}
+                      className="px-2 py-0.5 text-red-500 hover:bg-red-50 rounded"
+                      title="Delete template"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+                <p className="text-gray-500 mb-1">{template.description}</p>
+                {template.habits.map((habit, i) => (
+                  <label key={i} className="flex items-center gap-2 py-0.5 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(habitKey(template, i))}
+                      onChange={(e) => toggle([habitKey(template, i)], e.target.checked)}
+                    />
+                    <span className="truncate">
+                      {habit.icon} {habit.name}
+                    </span>
+                    <span className="ml-auto text-[10px] text-gray-400 whitespace-nowrap">
+                      {habit.kind === 'quantity' ? `${habit.target} ${habit.unit}` : habit.kind === 'quit' ? 'Quit' : describeSchedule(getSchedule(habit))}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {mode === 'browse' && (
+          <div className="flex items-center gap-2 mt-4 pt-4 border-t border-gray-200">
+            <input
+              type="text"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && canSave && templateName.trim() && saveTemplate()}
+              placeholder="Template name"
+              className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+            <button
+              onClick={saveTemplate}
+              disabled={!canSave || !templateName.trim()}
+              className="px-3 py-1 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors disabled:opacity-50"
+              title={`Save the habits of ${monthName} as a template`}
+            >
+              Save current habits
+            </button>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium transition-colors"
+          >
+            {mode === 'onboarding' ? 'Start empty' : 'Cancel'}
+          </button>
+          <button
+            onClick={() => onApply(selectedHabits)}
+            disabled={selectedHabits.length === 0}
+            className="px-4 py-2 text-white bg-blue-500 hover:bg-blue-600 rounded text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
+          >
+            {mode === 'onboarding' ? 'Start with' : 'Add'} {selectedHabits.length} habit{selectedHabits.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React from 'react';
+import { CheckState, Habit, HabitStreak, MentalState, MetricDefinition, SkipReason } from '../types';
+import { DayLock } from '../utils/dates';
+import { DEFAULT_QUANTITY_TARGET, getCheckState, isQuantityHabit, isQuitHabit } from '../utils/habits';
+import { formatMetricValue, getMetricValue } from '../utils/metrics';
+import { NOTE_MAX_LENGTH } from '../utils/notes';
+
+interface TodayViewProps {
+  date: Date; // Day being checked in
+  habits: Habit[]; // Active habits of that day's month
+  scheduled: Record<string, boolean>; // Whether each habit is expected that day
+  streaks: Record<string, HabitStreak>;
+  mental: MentalState | undefined;
+  metrics: MetricDefinition[];
+  isToday: boolean;
+  lock: DayLock | null; // Why the day's checks and metrics can't be changed, if they can't
+  onSetState: (habit: Habit, state: CheckState) => void;
+  onValueChange: (habitId: string, value: string) => void;
+  onNoteChange: (habitId: string, text: string) => void; // Trigger of a quit habit's slip
+  onMentalChange: (metric: MetricDefinition, value: string) => void;
+  onPrevDay: () => void;
+  onNextDay: () => void;
+  onOpenNotes: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Single-day check-in sized for phones: one large tap target per habit and a slider per
+ * daily metric. Edits go through the same handlers as the month grid.
+ */
+export const TodayView: React.FC<TodayViewProps> = ({
+  date,
+  habits,
+  scheduled,
+  streaks,
+  mental,
+  metrics,
+  isToday,
+  lock,
+  onSetState,
+  onValueChange,
+  onNoteChange,
+  onMentalChange,
+  onPrevDay,
+  onNextDay,
+  onOpenNotes,
+  onClose,
+}) => {
+  const dayIndex = date.getDate() - 1;
+  const due = habits.filter((h) => scheduled[h.id] ?? true);
+  const unscheduled = habits.filter((h) => !(scheduled[h.id] ?? true));
+  const counted = due.filter((h) => getCheckState(h, dayIndex) !== 'excused');
+  const doneCount = counted.filter((h) => h.checks[dayIndex]).length;
+
+  const renderHabit = (habit: Habit) => {
+    const state = getCheckState(habit, dayIndex);
+    const quit = isQuitHabit(habit);
+    const done = state === 'done' && !quit; // A clean day of a quit habit is the default, not an achievement to tick off
+    const streak = streaks[habit.id]?.current ?? 0;
+    const rowClass = `w-full flex items-center gap-3 p-4 rounded-lg border text-left transition-colors ${
+      done
+        ? 'bg-gray-700 border-gray-800 text-white'
+        : state === 'skipped' || state === 'slipped'
+          ? 'bg-red-50 border-red-200 text-gray-800'
+          : state === 'excused'
+            ? 'bg-blue-50 border-blue-200 text-gray-800'
+            : 'bg-white border-gray-300 text-gray-800 hover:bg-gray-50'
+    }`;
+    const label = (
+      <>
+        <span className="text-2xl">{habit.icon}</span>
+        <span className="flex-1 min-w-0">
+          <span className="block text-base font-semibold truncate">{habit.name}</span>
+          <span className={`block text-xs ${done ? 'text-gray-300' : 'text-gray-500'}`}>
+            {state === 'skipped'
+              ? 'Skipped'
+              : state === 'slipped'
+                ? 'Slipped'
+                : state === 'excused'
+                  ? 'Excused'
+                  : quit
+                    ? `🌱 ${streak} day${streak === 1 ? '' : 's'} clean`
+                    : streak > 0 ? `🔥 ${streak} day streak` : 'No current streak'}
+          </span>
+        </span>
+      </>
+    );
+    // Skip and excuse toggle; tapping the active one clears the day again
+    const skipButtons = (
+      <span className="flex flex-col gap-1">
+        {((quit ? ['excused'] : ['skipped', 'excused']) as SkipReason[]).map((reason) => (
+          <button
+            key={reason}
+            onClick={() => onSetState(habit, state === reason ? 'unlogged' : reason)}
+            className={`px-2 py-0.5 rounded border text-[10px] ${
+              state === reason ? 'bg-gray-600 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-500'
+            }`}
+          >
+            {reason === 'skipped' ? 'Skip' : 'Excuse'}
+          </button>
+        ))}
+      </span>
+    );
+
+    if (quit) {
+      const slipped = state === 'slipped';
+      return (
+        <div key={habit.id} className={`${rowClass} flex-wrap`}>
+          {label}
+          <button
+            onClick={() => onSetState(habit, slipped ? 'done' : 'slipped')}
+            className={`px-3 py-2 rounded border text-xs font-medium ${
+              slipped ? 'bg-white border-gray-300 text-gray-600' : 'bg-white border-red-300 text-red-600 hover:bg-red-50'
+            }`}
+          >
+            {slipped ? 'Undo slip' : 'I slipped'}
+          </button>
+          {skipButtons}
+          {slipped && (
+            <input
+              type="text"
+              value={habit.notes?.[dayIndex] ?? ''}
+              onChange={(e) => onNoteChange(habit.id, e.target.value)}
+              maxLength={NOTE_MAX_LENGTH}
+              placeholder="What triggered it? (optional)"
+              className="w-full border border-red-200 rounded px-2 py-1 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-red-200"
+            />
+          )}
+        </div>
+      );
+    }
+
+    if (isQuantityHabit(habit)) {
+      return (
+        <div key={habit.id} className={rowClass}>
+          {label}
+          <input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            value={habit.values?.[dayIndex] ? habit.values[dayIndex] : ''}
+            onChange={(e) => onValueChange(habit.id, e.target.value)}
+            placeholder="0"
+            className="w-20 text-center text-base text-gray-800 bg-white border border-gray-300 rounded p-2 focus:outline-none focus:ring-2 focus:ring-blue-300"
+          />
+          <span className={`text-xs w-16 ${done ? 'text-gray-300' : 'text-gray-500'}`}>
+            / {habit.target ?? DEFAULT_QUANTITY_TARGET} {habit.unit}
+          </span>
+          {skipButtons}
+        </div>
+      );
+    }
+
+    return (
+      <div key={habit.id} className={rowClass}>
+        <button onClick={() => onSetState(habit, done ? 'unlogged' : 'done')} className="flex-1 min-w-0 flex items-center gap-3 text-left">
+          {label}
+          <span
+            className={`w-8 h-8 rounded-full border-2 flex items-center justify-center text-lg ${
+              done ? 'border-white' : 'border-gray-400'
+            }`}
+          >
+            {done && '✓'}
+          </span>
+        </button>
+        {skipButtons}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <button onClick={onPrevDay} className="px-3 py-2 text-gray-600 hover:bg-gray-200 rounded" title="Previous day">
+          ◀
+        </button>
+        <div className="text-center">
+          <h2 className="text-lg font-bold text-gray-800">
+            {isToday ? 'Today' : date.toLocaleDateString('default', { weekday: 'long' })}
+          </h2>
+          <p className="text-xs text-gray-500">
+            {date.toLocaleDateString('default', { month: 'long', day: 'numeric', year: 'numeric' })}
+          </p>
+        </div>
+        <button
+          onClick={onNextDay}
+          disabled={isToday}
+          className="px-3 py-2 text-gray-600 hover:bg-gray-200 rounded disabled:opacity-30"
+          title="Next day"
+        >
+          ▶
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mb-2 text-xs text-gray-500">
+        <span>
+          {doneCount} of {counted.length} done
+        </span>
+        {isToday ? (
+          <button onClick={onPrevDay} className="text-blue-600 hover:underline">
+            Missed yesterday?
+          </button>
+        ) : (
+          <button onClick={onClose} className="text-blue-600 hover:underline">
+            Month view
+          </button>
+        )}
+      </div>
+
+      {lock && (
+        <p className="mb-2 p-2 text-xs text-gray-600 bg-gray-100 border border-gray-200 rounded">
+          🔒 {lock === 'future' ? "This day hasn't started yet." : 'Past days are locked. Notes and the journal can still be edited.'}
+        </p>
+      )}
+
+      <fieldset disabled={!!lock} className={lock ? 'opacity-60' : ''}>
+        <div className="space-y-2">
+          {due.map(renderHabit)}
+          {habits.length === 0 && <p className="text-center text-gray-500 italic py-6">No habits yet</p>}
+        </div>
+
+        {unscheduled.length > 0 && (
+          <>
+            <h3 className="mt-6 mb-2 text-xs font-semibold text-gray-500 uppercase">Not scheduled</h3>
+            <div className="space-y-2 opacity-75">{unscheduled.map(renderHabit)}</div>
+          </>
+        )}
+
+        {metrics.length > 0 && (
+          <div className="mt-6 bg-white border border-gray-300 rounded-lg p-4 space-y-4">
+            {metrics.map((metric) => {
+              const value = getMetricValue(mental, metric.id);
+              const unset = metric.min - metric.step; // The slider's far left means "not recorded"
+              return (
+                <label key={metric.id} className="block">
+                  <span className="flex justify-between text-sm font-semibold text-gray-700 mb-1">
+                    {metric.name}
+                    <span className="text-gray-500">
+                      {formatMetricValue(metric, value)}
+                      {value !== undefined && !metric.unit && ` / ${metric.max}`}
+                    </span>
+                  </span>
+                  <input
+                    type="range"
+                    min={unset}
+                    max={metric.max}
+                    step={metric.step}
+                    value={value ?? unset}
+                    onChange={(e) => onMentalChange(metric, Number(e.target.value) < metric.min ? '' : e.target.value)}
+                    className="w-full h-8 accent-gray-700"
+                  />
+                </label>
+              );
+            })}
+            <p className="text-[10px] text-gray-400">Leave a slider at the far left to skip the day.</p>
+          </div>
+        )}
+      </fieldset>
+
+      <button
+        onClick={onOpenNotes}
+        className="mt-4 w-full p-3 rounded-lg border border-gray-300 bg-white text-gray-700 text-left hover:bg-gray-50"
+      >
+        <span className="block text-sm font-semibold">📝 Journal & notes</span>
+        <span className="block text-xs text-gray-500 truncate">{mental?.journal || 'Write about the day or add notes to checks'}</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React, { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number; // ms before the toast hides itself
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, duration = 8000 }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, duration);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-800 text-white text-sm rounded shadow-lg px-4 py-2">
+      <span>{message}</span>
+      <button onClick={onUndo} className="font-semibold text-blue-300 hover:text-blue-200">
+        Undo
+      </button>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-white" title="Dismiss">
+        ✕
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import React, { useMemo } from 'react';
+import { Habit, MonthRecord, WeekStart } from '../types';
+import { DAYS_OF_WEEK } from '../constants';
+import { collectHabits } from '../services/exports';
+import { getDaysInMonth, getLogicalToday } from '../utils/dates';
+import { getCheckState, getDayCredit } from '../utils/habits';
+import { getScheduledDays } from '../utils/schedule';
+import { computeDailyStats } from '../utils/stats';
+
+interface YearHeatmapProps {
+  year: number;
+  records: MonthRecord[];
+  loading: boolean;
+  weekStart: WeekStart;
+  dayStart: number; // Minutes after midnight a new day begins
+  onSelectDay: (year: number, month: number, dayIndex: number) => void;
+  onPrevYear: () => void;
+  onNextYear: () => void;
+  onClose: () => void;
+}
+
+// Cell state: a completion share from 0 to 1, or a reason there is nothing to show
+type CellValue = number | 'no-data' | 'unscheduled' | 'future';
+
+interface HeatmapCell {
+  month: number;
+  dayIndex: number;
+  weekday: number;
+  value: CellValue;
+  title: string;
+}
+
+const cellClass = (value: CellValue) => {
+  if (value === 'no-data') return 'bg-white border border-dashed border-gray-300';
+  if (value === 'future') return 'bg-white border border-gray-100';
+  if (value === 'unscheduled') return 'bg-gray-100';
+  if (value === 0) return 'bg-gray-300';
+  if (value < 0.25) return 'bg-green-100';
+  if (value < 0.5) return 'bg-green-200';
+  if (value < 0.75) return 'bg-green-400';
+  if (value < 1) return 'bg-green-500';
+  return 'bg-green-700';
+};
+
+/**
+ * Builds one cell per day of the year. `getValue` is only called for days that
+ * belong to a stored month and are not in the future.
+ */
+const buildCells = (
+  year: number,
+  byMonth: Map<number, MonthRecord>,
+  today: Date,
+  getValue: (record: MonthRecord, dayIndex: number) => { value: CellValue; label: string }
+): HeatmapCell[] => {
+  const cells: HeatmapCell[] = [];
+  for (let month = 0; month < 12; month++) {
+    const record = byMonth.get(month);
+    for (let i = 0; i < getDaysInMonth(year, month); i++) {
+      const date = new Date(year, month, i + 1);
+      const dateLabel = date.toLocaleDateString('default', { month: 'short', day: 'numeric', year: 'numeric' });
+      let value: CellValue;
+      let label: string;
+      if (date > today) {
+        value = 'future';
+        label = '';
+      } else if (!record) {
+        value = 'no-data';
+        label = 'no data';
+      } else {
+        ({ value, label } = getValue(record, i));
+      }
+      cells.push({ month, dayIndex: i, weekday: date.getDay(), value, title: label ? `${dateLabel}: ${label}` : dateLabel });
+    }
+  }
+  return cells;
+};
+
+interface HeatmapGridProps {
+  cells: HeatmapCell[];
+  weekStart: WeekStart;
+  onSelect: (cell: HeatmapCell) => void;
+}
+
+// Row of a weekday when weeks start on `weekStart`
+const weekdayRow = (weekday: number, weekStart: WeekStart) => (weekday - weekStart + 7) % 7;
+
+// GitHub-style grid: one column per week, one row per weekday
+const HeatmapGrid: React.FC<HeatmapGridProps> = ({ cells, weekStart, onSelect }) => {
+  const columns: (HeatmapCell | null)[][] = [];
+  let column: (HeatmapCell | null)[] = Array(weekdayRow(cells[0]?.weekday ?? weekStart, weekStart)).fill(null);
+  cells.forEach((cell) => {
+    column.push(cell);
+    if (column.length === 7) {
+      columns.push(column);
+      column = [];
+    }
+  });
+  if (column.length > 0) columns.push(column);
+
+  return (
+    <div className="flex gap-[2px]">
+      {columns.map((col, cIdx) => (
+        <div key={cIdx} className="flex flex-col gap-[2px]">
+          {col.map((cell, rIdx) =>
+            cell ? (
+              <button
+                key={rIdx}
+                onClick={() => onSelect(cell)}
+                title={cell.title}
+                className={`w-[10px] h-[10px] rounded-[2px] hover:ring-1 hover:ring-blue-400 ${cellClass(cell.value)}`}
+              />
+            ) : (
+              <div key={rIdx} className="w-[10px] h-[10px]" />
+            )
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const habitValue = (habit: Habit | undefined, record: MonthRecord, dayIndex: number, weekStart: WeekStart) => {
+  if (!habit) return { value: 'no-data' as CellValue, label: 'not tracked' };
+  const scheduled = getScheduledDays(habit, record.year, record.month, weekStart)[dayIndex];
+  if (!scheduled) return { value: 'unscheduled' as CellValue, label: 'not scheduled' };
+  const state = getCheckState(habit, dayIndex);
+  if (state === 'excused') return { value: 'unscheduled' as CellValue, label: 'excused' };
+  const credit = getDayCredit(habit, dayIndex);
+  const missed = state === 'skipped' || state === 'slipped' ? state : 'not done';
+  return { value: credit, label: credit >= 1 ? 'done' : credit > 0 ? `${Math.round(credit * 100)}%` : missed };
+};
+
+export const YearHeatmap: React.FC<YearHeatmapProps> = ({
+  year,
+  records,
+  loading,
+  weekStart,
+  dayStart,
+  onSelectDay,
+  onPrevYear,
+  onNextYear,
+  onClose,
+}) => {
+  const byMonth = useMemo(() => new Map(records.map((r) => [r.month, r])), [records]);
+
+  const aggregateCells = useMemo(() => {
+    const stats = new Map(records.map((r) => [r.month, computeDailyStats(r.data.habits, r.year, r.month, weekStart)]));
+    return buildCells(year, byMonth, getLogicalToday(new Date(), dayStart), (record, i) => {
+      const stat = stats.get(record.month)![i];
+      if (stat.scheduled === 0) return { value: 'unscheduled', label: 'nothing scheduled' };
+      if (stat.counted === 0) {
+        return stat.excused === stat.scheduled
+          ? { value: 'unscheduled', label: 'excused' }
+          : { value: 'no-data', label: 'nothing logged' };
+      }
+      return { value: stat.percent / 100, label: `${stat.percent}% (${stat.done}/${stat.counted})` };
+    });
+  }, [year, records, byMonth, weekStart, dayStart]);
+
+  const habits = useMemo(() => collectHabits(records), [records]);
+  const habitCells = useMemo(
+    () =>
+      habits.map((habit) => ({
+        habit,
+        cells: buildCells(year, byMonth, getLogicalToday(new Date(), dayStart), (record, i) =>
+          habitValue(record.data.habits.find((h) => h.id === habit.id), record, i, weekStart)
+        ),
+      })),
+    [year, habits, byMonth, weekStart, dayStart]
+  );
+
+  const select = (cell: HeatmapCell) => onSelectDay(year, cell.month, cell.dayIndex);
+
+  return (
+    <div className="bg-white border border-gray-300 rounded-sm shadow-sm p-4 overflow-x-auto">
+      <div className="flex items-center justify-between mb-4 min-w-[700px]">
+        <div className="flex items-center gap-4">
+          <button onClick={onPrevYear} className="p-1 hover:bg-gray-200 rounded text-gray-500" title="Previous Year">◀</button>
+          <h2 className="text-xl font-bold text-gray-700">{year}</h2>
+          <button onClick={onNextYear} className="p-1 hover:bg-gray-200 rounded text-gray-500" title="Next Year">▶</button>
+        </div>
+        <div className="flex items-center gap-3 text-[10px] text-gray-500">
+          <span className="flex items-center gap-1"><span className={`inline-block w-[10px] h-[10px] ${cellClass('no-data')}`} /> No data</span>
+          <span className="flex items-center gap-1"><span className={`inline-block w-[10px] h-[10px] ${cellClass(0)}`} /> 0%</span>
+          <span className="flex items-center gap-1"><span className={`inline-block w-[10px] h-[10px] ${cellClass(0.3)}`} /> <span className={`inline-block w-[10px] h-[10px] ${cellClass(0.8)}`} /> <span className={`inline-block w-[10px] h-[10px] ${cellClass(1)}`} /> 100%</span>
+          <button onClick={onClose} className="ml-4 px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded text-xs text-gray-700">Month view</button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-8">Loading {year}...</div>
+      ) : (
+        <div className="space-y-4 min-w-[700px]">
+          <div className="flex gap-3">
+            <div className="w-40 flex-shrink-0 text-xs font-bold text-gray-600 pt-1">All habits</div>
+            <div className="flex gap-1">
+              <div className="w-[10px] flex flex-col gap-[2px] text-[8px] text-gray-400 leading-[10px]">
+                {DAYS_OF_WEEK.map((_, i) => DAYS_OF_WEEK[(i + weekStart) % 7]).map((d) => <div key={d}>{d}</div>)}
+              </div>
+              <HeatmapGrid cells={aggregateCells} weekStart={weekStart} onSelect={select} />
+            </div>
+          </div>
+
+          {habitCells.map(({ habit, cells }) => (
+            <div key={habit.id} className="flex gap-3">
+              <div className="w-40 flex-shrink-0 text-xs text-gray-700 truncate pt-1" title={habit.name}>
+                {habit.icon} {habit.name}
+              </div>
+              <div className="flex gap-1">
+                <div className="w-[10px]" />
+                <HeatmapGrid cells={cells} weekStart={weekStart} onSelect={select} />
+              </div>
+            </div>
+          ))}
+
+          {records.length === 0 && (
+            <div className="text-center text-gray-500 text-xs italic py-4">No data stored for {year}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
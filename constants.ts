@@ -1,17 +1,63 @@
-import { Habit } from './types';
+import { HabitTemplate, MetricDefinition } from './types';
 
-// Default template for a brand new user (no history)
-export const DEFAULT_HABITS_TEMPLATE: Omit<Habit, 'checks'>[] = [
-  { id: '1', name: 'Wake up at 05:00', icon: '⏰', goal: 30 },
-  { id: '2', name: 'Gym', icon: '💪', goal: 30 },
-  { id: '3', name: 'Reading / Learning', icon: '📖', goal: 30 },
-  { id: '4', name: 'Day Planning', icon: '📝', goal: 30 },
-  { id: '5', name: 'Budget Tracking', icon: '💰', goal: 30 },
-  { id: '6', name: 'Project Work', icon: '🚀', goal: 30 },
-  { id: '7', name: 'No Alcohol', icon: '🍷', goal: 30 },
-  { id: '8', name: 'Social Media Detox', icon: '🌿', goal: 30 },
-  { id: '9', name: 'Goal Journaling', icon: '📔', goal: 30 },
-  { id: '10', name: 'Cold Shower', icon: '🚿', goal: 30 },
+// Built-in habit sets offered on first run and under Templates
+export const TEMPLATE_PACKS: HabitTemplate[] = [
+  {
+    id: 'fitness',
+    name: 'Fitness',
+    icon: '💪',
+    description: 'Training, movement and recovery',
+    habits: [
+      { name: 'Gym', icon: '💪', schedule: { type: 'weekdays', days: [1, 3, 5] } },
+      { name: 'Steps', icon: '🚶', kind: 'quantity', unit: 'steps', target: 8000 },
+      { name: 'Stretching', icon: '🧘' },
+      { name: 'Drink water', icon: '💧', kind: 'quantity', unit: 'glasses', target: 8 },
+      { name: 'Cold Shower', icon: '🚿' },
+    ],
+  },
+  {
+    id: 'focus',
+    name: 'Focus',
+    icon: '🎯',
+    description: 'Deep work, learning and planning',
+    habits: [
+      { name: 'Wake up at 05:00', icon: '⏰' },
+      { name: 'Day Planning', icon: '📝' },
+      { name: 'Deep work', icon: '🚀', kind: 'quantity', unit: 'hours', target: 3 },
+      { name: 'Reading / Learning', icon: '📖', kind: 'quantity', unit: 'pages', target: 20 },
+      { name: 'Goal Journaling', icon: '📔' },
+    ],
+  },
+  {
+    id: 'sobriety',
+    name: 'Sobriety',
+    icon: '🌿',
+    description: 'Staying clear of drinks, smoking and doomscrolling',
+    habits: [
+      { name: 'No Alcohol', icon: '🍷', kind: 'quit' },
+      { name: 'No Smoking', icon: '🚭', kind: 'quit' },
+      { name: 'Social Media Detox', icon: '📵', kind: 'quit' },
+      { name: 'Support meeting', icon: '🤝', schedule: { type: 'weekly', timesPerWeek: 1 } },
+    ],
+  },
+  {
+    id: 'finance',
+    name: 'Finance',
+    icon: '💰',
+    description: 'Spending awareness and saving',
+    habits: [
+      { name: 'Budget Tracking', icon: '💰' },
+      { name: 'No impulse buys', icon: '🛍️', kind: 'quit' },
+      { name: 'Review accounts', icon: '📊', schedule: { type: 'weekdays', days: [0] } },
+      { name: 'Pay bills', icon: '🧾', schedule: { type: 'monthly', count: 1 } },
+    ],
+  },
+];
+
+// Daily metrics every tracker starts with; data from before custom metrics maps onto these
+export const DEFAULT_METRICS: MetricDefinition[] = [
+  { id: 'mood', name: 'Mood', min: 1, max: 10, step: 1, color: '#8884d8' },
+  { id: 'motivation', name: 'Motivation', min: 1, max: 10, step: 1, color: '#ffc658' },
 ];
 
 export const DAYS_OF_WEEK = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
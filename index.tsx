@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ProfileGate } from './components/ProfileGate';
+import { registerServiceWorker } from './services/reminders';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +12,15 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <ProfileGate>
+      {(session) => (
+        // A fresh tracker per profile, so no state carries over when switching
+        <React.Fragment key={session.profile.id}>
+          <App session={session} />
+        </React.Fragment>
+      )}
+    </ProfileGate>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
@@ -0,0 +1,126 @@
+// Service worker: keeps the app usable offline and shows habit reminders.
+// Plain JS because it is served as is from public/, outside the Vite build.
+
+const CACHE = 'habit-tracker-shell-v1';
+const SHELL = ['./', './index.html', './manifest.webmanifest', './icon.svg', './icon-192.png', './icon-512.png'];
+// Third-party hosts the page loads from (Tailwind, the import map); cached on first use
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com'];
+
+// Reminders planned by the page and the keys already shown, kept across restarts
+const REMINDER_STATE = './__reminders__';
+const PERIODIC_SYNC_TAG = 'habit-reminders';
+// Reminders found later than this (device asleep, app closed) are dropped, not shown late
+const MAX_DELAY = 60 * 60 * 1000;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Same-origin requests go to the network first so updates show up immediately, falling
+// back to the cache offline. CDN files are versioned, so the cached copy is used as is.
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => store(request, response)))
+    );
+  } else if (url.origin === self.location.origin && !url.pathname.endsWith('/__reminders__')) {
+    event.respondWith(
+      fetch(request)
+        .then((response) => store(request, response))
+        .catch(() =>
+          caches
+            .match(request)
+            .then((cached) => cached || (request.mode === 'navigate' ? caches.match('./index.html') : Response.error()))
+        )
+    );
+  }
+});
+
+const store = (request, response) => {
+  if (response.ok || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+// --- Reminders ---
+
+const readReminderState = async () => {
+  const cached = await caches.match(REMINDER_STATE);
+  return cached ? cached.json() : { reminders: [], shown: [] };
+};
+
+const writeReminderState = async (state) => {
+  const cache = await caches.open(CACHE);
+  await cache.put(REMINDER_STATE, new Response(JSON.stringify(state), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+const showDueReminders = async () => {
+  const state = await readReminderState();
+  const now = Date.now();
+  const due = state.reminders.filter((r) => r.at <= now && !state.shown.includes(r.key));
+  for (const reminder of due) {
+    if (now - reminder.at > MAX_DELAY) continue;
+    await self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      tag: reminder.key,
+      icon: './icon-192.png',
+    });
+  }
+  // Only keys that can still come up again need remembering
+  const plannedKeys = new Set(state.reminders.map((r) => r.key));
+  await writeReminderState({
+    reminders: state.reminders,
+    shown: [...state.shown.filter((key) => plannedKeys.has(key)), ...due.map((r) => r.key)],
+  });
+};
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (message?.type === 'reminders') {
+    event.waitUntil(
+      readReminderState().then((state) => writeReminderState({ reminders: message.reminders, shown: state.shown }))
+    );
+  } else if (message?.type === 'check-reminders') {
+    event.waitUntil(showDueReminders());
+  } else if (message?.type === 'cache-urls') {
+    // Files the page loaded before this worker took control, e.g. the hashed bundles
+    event.waitUntil(
+      caches.open(CACHE).then((cache) =>
+        Promise.all(
+          message.urls.map((url) =>
+            cache.match(url).then((cached) => cached || fetch(url).then((response) => store(new Request(url), response)).catch(() => {}))
+          )
+        )
+      )
+    );
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) event.waitUntil(showDueReminders());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      return client ? client.focus() : self.clients.openWindow('./');
+    })
+  );
+});
@@ -0,0 +1,129 @@
+// Reference sync server for the habit tracker. It stores opaque JSON documents per
+// space with a revision number and rejects writes based on an outdated revision; the
+// app does all merging. No dependencies: run it with `npm run sync-server`.
+//
+//   PORT        Port to listen on (default 8787)
+//   DATA_FILE   Where documents are kept (default ./sync-data.json)
+//   SYNC_TOKEN  When set, requests must send `Authorization: Bearer <token>`
+//
+//   GET /spaces/:space/changes?since=N  -> { rev, docs: [{ key, rev }] } written after N
+//   GET /spaces/:space/docs/:key        -> { key, rev, data } or 404
+//   PUT /spaces/:space/docs/:key        { baseRev, data } -> { rev }, or 409 with the
+//                                       current document when it moved past baseRev
+
+import { createServer } from 'node:http';
+import { readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = process.env.DATA_FILE ?? './sync-data.json';
+const TOKEN = process.env.SYNC_TOKEN ?? '';
+const MAX_BODY = 5 * 1024 * 1024;
+
+// Lookup table without a prototype, so names like "__proto__" are plain keys
+const dict = (entries = {}) => Object.assign(Object.create(null), entries);
+
+// { [space]: { rev, docs: { [key]: { key, rev, data } } } }
+let spaces = dict();
+try {
+  const stored = JSON.parse(readFileSync(DATA_FILE, 'utf8'));
+  for (const [id, space] of Object.entries(stored)) spaces[id] = { rev: space.rev, docs: dict(space.docs) };
+} catch (error) {
+  if (error.code !== 'ENOENT') throw error;
+}
+
+const persist = () => {
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(spaces));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new Error('Body too large'));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const handle = async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'Unauthorized' });
+
+  const url = new URL(req.url, 'http://localhost');
+  const match = /^\/spaces\/([^/]+)\/(changes|docs\/([^/]+))$/.exec(url.pathname);
+  if (!match) return send(res, 404, { error: 'Not found' });
+  const spaceId = decodeURIComponent(match[1]);
+  const space = spaces[spaceId] ?? { rev: 0, docs: dict() };
+
+  if (match[2] === 'changes' && req.method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0);
+    const docs = Object.values(space.docs)
+      .filter((doc) => doc.rev > since)
+      .map(({ key, rev }) => ({ key, rev }));
+    return send(res, 200, { rev: space.rev, docs });
+  }
+
+  const key = decodeURIComponent(match[3] ?? '');
+  if (!key) return send(res, 404, { error: 'Not found' });
+
+  if (req.method === 'GET') {
+    const doc = space.docs[key];
+    return doc ? send(res, 200, doc) : send(res, 404, { error: 'Not found' });
+  }
+
+  if (req.method === 'PUT') {
+    let body;
+    try {
+      body = await readBody(req);
+    } catch {
+      return send(res, 400, { error: 'Invalid body' });
+    }
+    if (typeof body?.baseRev !== 'number' || body.data === undefined) return send(res, 400, { error: 'Invalid body' });
+    const current = space.docs[key];
+    if (current && current.rev !== body.baseRev) return send(res, 409, current);
+    space.rev += 1;
+    space.docs[key] = { key, rev: space.rev, data: body.data };
+    spaces[spaceId] = space;
+    persist();
+    return send(res, 200, { rev: space.rev });
+  }
+
+  send(res, 405, { error: 'Method not allowed' });
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    await handle(req, res);
+  } catch (error) {
+    // Malformed percent-encoding in the path is the client's fault; anything else is ours
+    if (res.headersSent) res.end();
+    else if (error instanceof URIError) send(res, 400, { error: 'Invalid path' });
+    else send(res, 500, { error: 'Internal error' });
+  }
+});
+
+server.listen(PORT, () => console.log(`Habit tracker sync server listening on port ${PORT}`));
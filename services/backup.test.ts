@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { HabitRegistry, MentalState, MonthData } from '../types';
+import { toMonthKey } from '../utils/dates';
+import { setDayDone } from '../utils/habits';
+import { addDefinition, EMPTY_REGISTRY, resolveMonth, toStoredMonth } from '../utils/registry';
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupFile, applyImportPlan, planImport } from './backup';
+import { createMemoryStorage } from './memoryStorage';
+import { createLocalStorageStore } from './storage';
+
+const YEAR = 2026;
+const MONTH = 4;
+const READ = addDefinition(EMPTY_REGISTRY, 'read', { name: 'Read', icon: '📖' }, toMonthKey(YEAR, MONTH));
+const READ_AND_RUN = addDefinition(READ, 'run', { name: 'Run', icon: '🏃' }, toMonthKey(YEAR, MONTH));
+
+// The month with every habit done on `checkedDay`
+const month = (registry: HabitRegistry, checkedDay: number, lastUpdated: number, mentalState: MentalState[] = []): MonthData => {
+  const empty = resolveMonth(registry, { entries: {}, mentalState, lastUpdated }, YEAR, MONTH);
+  return { ...empty, habits: empty.habits.map((h) => setDayDone(h, checkedDay, true)) };
+};
+
+const backupOf = (registry: HabitRegistry, data: MonthData): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: 0,
+  registry,
+  months: [{ year: YEAR, month: MONTH, data: toStoredMonth(data) }],
+});
+
+const storeWith = async (registry: HabitRegistry, data: MonthData) => {
+  const store = createLocalStorageStore(createMemoryStorage());
+  await store.saveRegistry(registry);
+  await store.saveMonth(YEAR, MONTH, data);
+  return store;
+};
+
+const checkedDays = (data: MonthData, id: string) =>
+  data.habits.find((h) => h.id === id)!.checks.flatMap((done, i) => (done ? [i] : []));
+
+describe('planImport', () => {
+  it('takes the newer side of a habit both copies have when merging', async () => {
+    const store = await storeWith(READ, month(READ, 1, 5));
+
+    const [newer] = await planImport(store, backupOf(READ, month(READ, 2, 10)), 'merge');
+    expect(newer).toMatchObject({ action: 'merge', habitsUpdated: ['Read'] });
+    expect(checkedDays(newer.result, 'read')).toEqual([2]);
+
+    const [older] = await planImport(store, backupOf(READ, month(READ, 2, 1)), 'merge');
+    expect(older).toMatchObject({ action: 'unchanged', habitsUpdated: [] });
+    expect(checkedDays(older.result, 'read')).toEqual([1]);
+  });
+
+  it('keeps local-only habits and never replaces a recorded day with an empty one', async () => {
+    const store = await storeWith(READ_AND_RUN, month(READ_AND_RUN, 1, 5, [{ day: 3, values: { mood: 7 } }]));
+    const incoming = month(READ, 1, 10, [
+      { day: 3, values: {} },
+      { day: 4, values: { mood: 5 } },
+    ]);
+
+    const [plan] = await planImport(store, backupOf(READ, incoming), 'merge');
+    expect(plan).toMatchObject({ action: 'merge', habitsLocalOnly: ['Run'], mentalDaysChanged: 1 });
+    expect(plan.result.habits.map((h) => h.id)).toEqual(['read', 'run']);
+    expect(plan.result.mentalState).toEqual([
+      { day: 3, values: { mood: 7 } },
+      { day: 4, values: { mood: 5 } },
+    ]);
+  });
+});
+
+describe('applyImportPlan', () => {
+  it('drops habits missing from the backup when replacing', async () => {
+    const store = await storeWith(READ_AND_RUN, month(READ_AND_RUN, 1, 5));
+    const backup = backupOf(READ, month(READ, 2, 1));
+
+    const plans = await planImport(store, backup, 'replace');
+    expect(plans[0]).toMatchObject({ action: 'replace', habitsLocalOnly: ['Run'] });
+    await applyImportPlan(store, plans, backup.registry, 'replace');
+
+    expect((await store.loadRegistry()).habits.map((h) => h.id)).toEqual(['read']);
+    const stored = await store.loadMonth(YEAR, MONTH);
+    expect(stored!.habits.map((h) => h.id)).toEqual(['read']);
+    expect(checkedDays(stored!, 'read')).toEqual([2]);
+  });
+});
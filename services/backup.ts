@@ -0,0 +1,207 @@
+import { Habit, HabitRegistry, ImportMode, MentalState, MonthData, MonthImportPlan, StoredMonth } from '../types';
+import { isRecord } from '../utils/guards';
+import { buildRegistry, mergeRegistry, resolveMonth, toStoredMonth } from '../utils/registry';
+import { HabitStore, StorageValidationError, migrateMonthData, readEmbeddedHabits, validateRegistry } from './storage';
+
+export const BACKUP_FORMAT = 'habit-tracker-backup';
+export const BACKUP_VERSION = 2; // 2: habit registry plus check data per month
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  registry: HabitRegistry;
+  months: { year: number; month: number; data: StoredMonth }[];
+}
+
+/**
+ * Collects the habit registry and every stored month into one versioned backup.
+ */
+export const exportBackup = async (store: HabitStore): Promise<BackupFile> => {
+  const months: BackupFile['months'] = [];
+  for (const { year, month } of await store.listMonths()) {
+    const data = await store.loadMonth(year, month);
+    if (data) months.push({ year, month, data: toStoredMonth(data) });
+  }
+  const registry = await store.loadRegistry();
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), registry, months };
+};
+
+const isBackupMonth = (value: unknown): value is { year: number; month: number; data: unknown } =>
+  isRecord(value) &&
+  typeof value.year === 'number' &&
+  Number.isInteger(value.year) &&
+  typeof value.month === 'number' &&
+  Number.isInteger(value.month) &&
+  value.month >= 0 &&
+  value.month <= 11;
+
+/**
+ * Parses and validates a backup file. Every month is run through the storage
+ * migrations, so backups written by older versions import cleanly; for backups from
+ * before the registry, it is built from the definitions each month embedded.
+ */
+export const parseBackup = (text: string): BackupFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new StorageValidationError('The file is not valid JSON');
+  }
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT || !Array.isArray(raw.months)) {
+    throw new StorageValidationError('The file is not a habit tracker backup');
+  }
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new StorageValidationError('The backup was made by a newer version of the app');
+  }
+  if (!raw.months.every(isBackupMonth)) {
+    throw new StorageValidationError('The backup contains an invalid month');
+  }
+
+  const registry = raw.version < 2
+    ? buildRegistry(raw.months.map((entry) => ({ year: entry.year, month: entry.month, habits: readEmbeddedHabits(entry.data) })))
+    : validateRegistry(raw.registry);
+  const months = raw.months.map((entry) => ({ year: entry.year, month: entry.month, data: migrateMonthData(entry.data) }));
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+    registry,
+    months,
+  };
+};
+
+const sameHabit = (a: Habit, b: Habit) => JSON.stringify(a) === JSON.stringify(b);
+
+const isEmptyMental = (m?: MentalState) => !m || (Object.keys(m.values).length === 0 && !m.journal);
+
+/**
+ * Merges two versions of the same month. Habits are matched by id; when both sides
+ * have a habit, the side with the newer `lastUpdated` wins. Habits that only exist on
+ * one side are kept. Mental state is merged per day the same way, but a recorded day
+ * is never replaced by an empty one.
+ */
+const mergeMonth = (local: MonthData, incoming: MonthData) => {
+  const incomingNewer = incoming.lastUpdated > local.lastUpdated;
+  const incomingById = new Map(incoming.habits.map((h) => [h.id, h]));
+  const localIds = new Set(local.habits.map((h) => h.id));
+
+  const habitsAdded: string[] = [];
+  const habitsUpdated: string[] = [];
+  const habitsLocalOnly: string[] = [];
+
+  const habits = local.habits.map((h) => {
+    const other = incomingById.get(h.id);
+    if (other && incomingNewer && !sameHabit(h, other)) {
+      habitsUpdated.push(other.name);
+      return other;
+    }
+    if (!other) habitsLocalOnly.push(h.name);
+    return h;
+  });
+  incoming.habits.forEach((h) => {
+    if (localIds.has(h.id)) return;
+    habitsAdded.push(h.name);
+    habits.push(h);
+  });
+
+  let mentalDaysChanged = 0;
+  const days = new Set([...local.mentalState, ...incoming.mentalState].map((m) => m.day));
+  const mentalState = [...days].sort((a, b) => a - b).map((day) => {
+    const mine = local.mentalState.find((m) => m.day === day);
+    const theirs = incoming.mentalState.find((m) => m.day === day);
+    const useTheirs = !isEmptyMental(theirs) && (isEmptyMental(mine) || incomingNewer);
+    if (useTheirs && JSON.stringify(mine) !== JSON.stringify(theirs)) mentalDaysChanged++;
+    return (useTheirs ? theirs : mine)!;
+  });
+
+  const result: MonthData = {
+    ...local,
+    habits,
+    mentalState,
+    lastUpdated: Math.max(local.lastUpdated, incoming.lastUpdated),
+  };
+  return { result, habitsAdded, habitsUpdated, habitsLocalOnly, mentalDaysChanged };
+};
+
+/**
+ * Works out, month by month, what importing the backup would change. Nothing is
+ * written; pass the plans to `applyImportPlan` once the user has confirmed.
+ * In 'replace' mode the backup's months overwrite local ones, and habits missing from
+ * the backup are dropped everywhere; months that only exist locally keep their other
+ * data in both modes.
+ */
+export const planImport = async (
+  store: HabitStore,
+  backup: BackupFile,
+  mode: ImportMode
+): Promise<MonthImportPlan[]> => {
+  const plans: MonthImportPlan[] = [];
+
+  for (const { year, month, data: stored } of backup.months) {
+    const data = resolveMonth(backup.registry, stored, year, month);
+    const local = await store.loadMonth(year, month);
+    const base = { year, month, habitsLocalOnly: [] as string[] };
+
+    if (!local) {
+      plans.push({
+        ...base,
+        action: 'create',
+        habitsAdded: data.habits.map((h) => h.name),
+        habitsUpdated: [],
+        mentalDaysChanged: data.mentalState.filter((m) => !isEmptyMental(m)).length,
+        result: data,
+      });
+      continue;
+    }
+
+    if (mode === 'replace') {
+      const localById = new Map(local.habits.map((h) => [h.id, h]));
+      const incomingIds = new Set(data.habits.map((h) => h.id));
+      const unchanged = JSON.stringify(local.habits) === JSON.stringify(data.habits)
+        && JSON.stringify(local.mentalState) === JSON.stringify(data.mentalState);
+      plans.push({
+        ...base,
+        action: unchanged ? 'unchanged' : 'replace',
+        habitsAdded: data.habits.filter((h) => !localById.has(h.id)).map((h) => h.name),
+        habitsUpdated: data.habits
+          .filter((h) => localById.has(h.id) && !sameHabit(localById.get(h.id)!, h))
+          .map((h) => h.name),
+        habitsLocalOnly: local.habits.filter((h) => !incomingIds.has(h.id)).map((h) => h.name),
+        mentalDaysChanged: data.mentalState.filter(
+          (m) => JSON.stringify(m) !== JSON.stringify(local.mentalState.find((l) => l.day === m.day))
+        ).length,
+        result: data,
+      });
+      continue;
+    }
+
+    const merged = mergeMonth(local, data);
+    const changed = merged.habitsAdded.length + merged.habitsUpdated.length + merged.mentalDaysChanged > 0;
+    plans.push({ ...base, ...merged, action: changed ? 'merge' : 'unchanged' });
+  }
+
+  return plans.sort((a, b) => a.year - b.year || a.month - b.month);
+};
+
+/**
+ * Writes the confirmed plans. The backup's habit definitions are written first, so the
+ * imported check data has habits to belong to: merged into the local registry in
+ * 'merge' mode, and in place of it in 'replace' mode, which drops local-only habits.
+ */
+export const applyImportPlan = async (
+  store: HabitStore,
+  plans: MonthImportPlan[],
+  registry: HabitRegistry,
+  mode: ImportMode
+) => {
+  await store.saveRegistry(
+    mode === 'replace'
+      ? { ...registry, lastUpdated: Date.now() }
+      : mergeRegistry(await store.loadRegistry(), registry)
+  );
+  for (const plan of plans) {
+    if (plan.action === 'unchanged') continue;
+    await store.saveMonth(plan.year, plan.month, plan.result);
+  }
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_METRICS } from '../constants';
+import { Habit, MonthRecord } from '../types';
+import { ExportOptions, buildCsv, buildIcs } from './exports';
+
+const pages: Habit = {
+  id: 'read',
+  name: 'Read',
+  icon: '📖',
+  goal: 28,
+  kind: 'quantity',
+  unit: 'pages',
+  target: 20,
+  values: [20, 5, ...Array(26).fill(0)],
+  checks: [true, ...Array(27).fill(false)],
+  notes: { 0: 'sore, tired' },
+  skips: { 2: 'skipped' },
+};
+const run: Habit = { id: 'run', name: 'Run', icon: '🏃', goal: 28, checks: Array(28).fill(true) };
+
+const february = (habits: Habit[]): MonthRecord => ({
+  year: 2026,
+  month: 1,
+  data: { habits, mentalState: [{ day: 1, values: { mood: 7 } }], lastUpdated: 1 },
+});
+
+// All of February, exported on the 3rd
+const options: ExportOptions = {
+  from: new Date(2026, 1, 1),
+  to: new Date(2026, 1, 28),
+  today: new Date(2026, 1, 3),
+  habitIds: ['read'],
+  metrics: DEFAULT_METRICS.filter((m) => m.id === 'mood'),
+};
+
+describe('buildCsv', () => {
+  it('writes one row per day up to today for the selected habits', () => {
+    expect(buildCsv([february([pages, run])], options).split('\r\n')).toEqual([
+      'date,habit_id,habit,done,status,value,unit,note,mood,journal',
+      '2026-02-01,read,Read,1,done,20,pages,"sore, tired",7,',
+      '2026-02-02,read,Read,0,unlogged,5,pages,,,',
+      '2026-02-03,read,Read,0,skipped,0,pages,,,',
+      '',
+    ]);
+  });
+
+  it('leaves out days outside the range', () => {
+    const lines = buildCsv([february([run])], { ...options, habitIds: ['run'], from: new Date(2026, 1, 2) }).trim().split('\r\n');
+    expect(lines.slice(1).map((line) => line.split(',')[0])).toEqual(['2026-02-02', '2026-02-03']);
+  });
+});
+
+describe('buildIcs', () => {
+  it('adds an all-day event for each completed day only', () => {
+    const lines = buildIcs([february([pages, run])], options).split('\r\n');
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1);
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260201');
+    expect(lines).toContain('DTEND;VALUE=DATE:20260202');
+    expect(lines).toContain('SUMMARY:📖 Read (20 pages)');
+    expect(lines).toContain('DESCRIPTION:sore\\, tired');
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const long = { ...run, name: 'Stretch '.repeat(20).trim() };
+    const ics = buildIcs([february([long])], { ...options, habitIds: ['run'] });
+    const encoder = new TextEncoder();
+    expect(ics.split('\r\n').every((line) => encoder.encode(line).length <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, '')).toContain(`SUMMARY:🏃 ${long.name}`);
+  });
+});
@@ -0,0 +1,157 @@
+import { Habit, MetricDefinition, MonthRecord } from '../types';
+import { getDaysInMonth, toDateKey } from '../utils/dates';
+import { getCheckState } from '../utils/habits';
+import { HabitStore } from './storage';
+
+export interface ExportOptions {
+  from: Date;
+  to: Date; // Inclusive
+  today: Date; // Later days haven't happened yet and are left out
+  habitIds: string[];
+  metrics: MetricDefinition[]; // One CSV column each
+}
+
+/**
+ * Loads every stored month that overlaps the given date range, oldest first.
+ */
+export const loadRange = async (store: HabitStore, from: Date, to: Date): Promise<MonthRecord[]> => {
+  const records: MonthRecord[] = [];
+  const cursor = new Date(from.getFullYear(), from.getMonth(), 1);
+  while (cursor <= to) {
+    const data = await store.loadMonth(cursor.getFullYear(), cursor.getMonth());
+    if (data) records.push({ year: cursor.getFullYear(), month: cursor.getMonth(), data });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return records;
+};
+
+/**
+ * Distinct habits (by id) found in the records; the most recent definition wins.
+ */
+export const collectHabits = (records: MonthRecord[]) => {
+  const byId = new Map<string, Habit>();
+  records.forEach((r) => r.data.habits.forEach((h) => byId.set(h.id, h)));
+  return [...byId.values()];
+};
+
+// Visits every day of the records that falls inside the export range and has begun
+const forEachDay = (
+  records: MonthRecord[],
+  { from, to, today }: ExportOptions,
+  visit: (record: MonthRecord, dayIndex: number, date: string) => void
+) => {
+  records.forEach((record) => {
+    for (let i = 0; i < getDaysInMonth(record.year, record.month); i++) {
+      const day = new Date(record.year, record.month, i + 1);
+      if (day < from || day > to || day > today) continue;
+      visit(record, i, toDateKey(record.year, record.month, i + 1));
+    }
+  });
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS = ['date', 'habit_id', 'habit', 'done', 'status', 'value', 'unit', 'note'];
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Tidy CSV: one row per date and habit, with that day's metric values and journal
+ * repeated on each row. `status` tells a skipped or excused day apart from one nothing
+ * was logged for. Metrics are named by id; unrecorded values are left empty.
+ */
+export const buildCsv = (records: MonthRecord[], options: ExportOptions): string => {
+  const selected = new Set(options.habitIds);
+  const lines = [[...CSV_COLUMNS, ...options.metrics.map((m) => m.id), 'journal'].map(csvCell).join(',')];
+
+  forEachDay(records, options, (record, i, date) => {
+    const mental = record.data.mentalState.find((m) => m.day === i + 1);
+    record.data.habits
+      .filter((h) => selected.has(h.id))
+      .forEach((h) => {
+        lines.push(
+          [
+            date,
+            h.id,
+            h.name,
+            h.checks[i] ? 1 : 0,
+            getCheckState(h, i),
+            h.kind === 'quantity' ? h.values?.[i] ?? 0 : '',
+            h.unit ?? '',
+            h.notes?.[i] ?? '',
+            ...options.metrics.map((m) => mental?.values[m.id] ?? ''),
+            mental?.journal ?? '',
+          ].map(csvCell).join(',')
+        );
+      });
+  });
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+// --- iCalendar ---
+
+const icsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (date: Date) => toDateKey(date.getFullYear(), date.getMonth(), date.getDate()).replace(/-/g, '');
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Calendar with one all-day event per completed habit per day. A check note becomes
+ * the event description.
+ */
+export const buildIcs = (records: MonthRecord[], options: ExportOptions): string => {
+  const selected = new Set(options.habitIds);
+  const stamp = icsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Habit Tracker//Habit History//EN',
+    'CALSCALE:GREGORIAN',
+  ];
+
+  forEachDay(records, options, (record, i, date) => {
+    const start = new Date(record.year, record.month, i + 1);
+    const end = new Date(record.year, record.month, i + 2);
+    record.data.habits
+      .filter((h) => selected.has(h.id) && h.checks[i])
+      .forEach((h) => {
+        const amount = h.kind === 'quantity' ? ` (${h.values?.[i] ?? 0}${h.unit ? ` ${h.unit}` : ''})` : '';
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${h.id}-${date}@habit-tracker`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART;VALUE=DATE:${icsDate(start)}`,
+          `DTEND;VALUE=DATE:${icsDate(end)}`,
+          `SUMMARY:${icsText(`${h.icon} ${h.name}${amount}`.trim())}`,
+          ...(h.notes?.[i] ? [`DESCRIPTION:${icsText(h.notes[i])}`] : []),
+          'TRANSP:TRANSPARENT',
+          'END:VEVENT'
+        );
+      });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,46 @@
+import { HabitStore, createLocalStorageStore, getKeyPrefix } from './storage';
+import { createIndexedDbStore, getDatabaseName } from './indexedDbStore';
+
+const hasIndexedDb = typeof indexedDB !== 'undefined';
+
+const stores = new Map<string, HabitStore>();
+
+/**
+ * Store for a profile namespace: IndexedDB where available, otherwise the original
+ * one-entry-per-month localStorage backend. Stores are cached, so switching back to a
+ * profile reuses its open database.
+ */
+export const getHabitStore = (namespace: string): HabitStore => {
+  let store = stores.get(namespace);
+  if (!store) {
+    store = hasIndexedDb ? createIndexedDbStore(window.localStorage, namespace) : createLocalStorageStore(window.localStorage, namespace);
+    stores.set(namespace, store);
+  }
+  return store;
+};
+
+/**
+ * Removes everything stored for a namespace: its localStorage keys and its database.
+ * Refuses the default namespace, whose key prefix is shared with every other one.
+ */
+export const deleteStoredData = async (namespace: string) => {
+  if (!namespace) throw new Error('The default profile cannot be deleted');
+  // An open connection would block deleting the database
+  await stores.get(namespace)?.close();
+  stores.delete(namespace);
+  const prefix = getKeyPrefix(namespace);
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key);
+  }
+  keys.forEach((key) => localStorage.removeItem(key));
+  if (hasIndexedDb) {
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(getDatabaseName(namespace));
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => resolve(); // Open in another tab; deleted once that closes it
+    });
+  }
+};
@@ -0,0 +1,72 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { MonthData } from '../types';
+import { toMonthKey } from '../utils/dates';
+import { addDefinition, EMPTY_REGISTRY, resolveMonth } from '../utils/registry';
+import { setDayDone } from '../utils/habits';
+import { createIndexedDbStore, getDatabaseName } from './indexedDbStore';
+import { createMemoryStorage } from './memoryStorage';
+
+const YEAR = 2026;
+const MONTH = 2;
+
+describe('createIndexedDbStore', () => {
+  it('keeps the last of two back-to-back saves of a month', async () => {
+    const registry = addDefinition(EMPTY_REGISTRY, 'read', { name: 'Read', icon: '📖' }, toMonthKey(YEAR, MONTH));
+    const store = createIndexedDbStore(createMemoryStorage(), 'back-to-back');
+    await store.saveRegistry(registry);
+
+    const empty: MonthData = resolveMonth(registry, { entries: {}, mentalState: [], lastUpdated: 1 }, YEAR, MONTH);
+    const checked = { ...empty, habits: empty.habits.map((h) => setDayDone(h, 4, true)), lastUpdated: 2 };
+    const unchecked = { ...empty, lastUpdated: 3 };
+
+    await store.saveMonth(YEAR, MONTH, empty); // Saves after this one diff against a snapshot
+
+    // Check and uncheck the same cell without waiting for the first save
+    await Promise.all([store.saveMonth(YEAR, MONTH, checked), store.saveMonth(YEAR, MONTH, unchecked)]);
+
+    const reloaded = await createIndexedDbStore(createMemoryStorage(), 'back-to-back').loadMonth(YEAR, MONTH);
+    expect(reloaded?.habits[0].checks[4]).toBe(false);
+    expect(reloaded?.lastUpdated).toBe(3);
+  });
+
+  it('keeps an unreadable registry aside and reports it', async () => {
+    const namespace = 'unreadable-registry';
+    await createIndexedDbStore(createMemoryStorage(), namespace).saveRegistry(EMPTY_REGISTRY);
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(getDatabaseName(namespace));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const corrupt = { habits: 'not a list' };
+    const tx = db.transaction(['meta'], 'readwrite');
+    tx.objectStore('meta').put(corrupt, 'registry');
+    await new Promise((resolve) => (tx.oncomplete = resolve));
+
+    const store = createIndexedDbStore(createMemoryStorage(), namespace);
+    expect(await store.loadRegistry()).toEqual(EMPTY_REGISTRY);
+    const quarantined = await store.getQuarantinedRegistry();
+    expect(quarantined?.reason).toBe('Invalid habit registry');
+
+    const kept = await new Promise((resolve) => {
+      const request = db.transaction(['meta'], 'readonly').objectStore('meta').get(quarantined!.key);
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(kept).toEqual(corrupt);
+  });
+
+  it('releases its connection on close so the database can be deleted', async () => {
+    const namespace = 'closed';
+    const store = createIndexedDbStore(createMemoryStorage(), namespace);
+    await store.saveRegistry(addDefinition(EMPTY_REGISTRY, 'read', { name: 'Read', icon: '📖' }, toMonthKey(YEAR, MONTH)));
+    await store.close();
+
+    const outcome = await new Promise((resolve) => {
+      const request = indexedDB.deleteDatabase(getDatabaseName(namespace));
+      request.onsuccess = () => resolve('deleted');
+      request.onblocked = () => resolve('blocked');
+    });
+    expect(outcome).toBe('deleted');
+    expect((await createIndexedDbStore(createMemoryStorage(), namespace).loadRegistry()).habits).toEqual([]);
+  });
+});
@@ -0,0 +1,483 @@
+import {
+  Habit,
+  HabitEntry,
+  HabitRegistry,
+  MentalState,
+  MonthData,
+  MonthRecord,
+  QuarantinedMonth,
+  QuarantinedRegistry,
+  SkipReason,
+} from '../types';
+import { getDaysInMonth, toDateKey } from '../utils/dates';
+import { EMPTY_REGISTRY, buildRegistry, resolveMonth } from '../utils/registry';
+import {
+  CURRENT_SCHEMA_VERSION,
+  HabitStore,
+  createLocalStorageStore,
+  getKeyPrefix,
+  getQuarantinePrefix,
+  getSyncBaseKey,
+  migrateMonthData,
+  validateRegistry,
+} from './storage';
+
+const DB_VERSION = 1;
+
+// Object stores
+const MONTHS = 'months';
+const ENTRIES = 'entries';
+const MENTAL = 'mental';
+const QUARANTINE = 'quarantine';
+const META = 'meta';
+
+const LEGACY_IMPORTED_KEY = 'legacyLocalStorageImported';
+const REGISTRY_KEY = 'registry';
+const syncBaseKey = (key: string) => `sync-base-${key}`;
+
+type EmbeddedDefinition = Omit<Habit, 'checks' | 'values' | 'notes' | 'skips'>;
+
+// One row per month with its bookkeeping. Rows written before the registry existed
+// also carry the month's habit definitions in display order.
+interface MonthRecordRow {
+  monthKey: string;
+  year: number;
+  month: number;
+  schemaVersion: number;
+  lastUpdated: number;
+  habits?: EmbeddedDefinition[];
+}
+
+// One row per habit per day. Only days with something logged are stored.
+interface EntryRow {
+  habitId: string;
+  date: string; // YYYY-MM-DD
+  monthKey: string;
+  done: boolean;
+  value?: number;
+  note?: string;
+  skip?: SkipReason;
+}
+
+interface MentalRow extends MentalState {
+  date: string;
+  monthKey: string;
+}
+
+const getMonthKey = (year: number, month: number) => `${year}-${month}`;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// One database per profile namespace; the default one keeps the original name
+export const getDatabaseName = (namespace: string) => getKeyPrefix(namespace).slice(0, -1);
+
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(MONTHS, { keyPath: 'monthKey' });
+
+      const entries = db.createObjectStore(ENTRIES, { keyPath: ['habitId', 'date'] });
+      entries.createIndex('habitId', 'habitId');
+      entries.createIndex('date', 'date');
+      entries.createIndex('monthKey', 'monthKey');
+
+      const mental = db.createObjectStore(MENTAL, { keyPath: 'date' });
+      mental.createIndex('monthKey', 'monthKey');
+
+      db.createObjectStore(QUARANTINE, { keyPath: 'key' });
+      db.createObjectStore(META);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const toEntryRows = (year: number, month: number, data: MonthData): EntryRow[] => {
+  const monthKey = getMonthKey(year, month);
+  const rows: EntryRow[] = [];
+  data.habits.forEach((h) => {
+    h.checks.forEach((done, i) => {
+      const value = h.values?.[i];
+      const note = h.notes?.[i];
+      const skip = h.skips?.[i];
+      if (!done && !value && !note && !skip) return;
+      rows.push({
+        habitId: h.id,
+        date: toDateKey(year, month, i + 1),
+        monthKey,
+        done,
+        ...(value ? { value } : {}),
+        ...(note ? { note } : {}),
+        ...(skip ? { skip } : {}),
+      });
+    });
+  });
+  return rows;
+};
+
+const toMentalRows = (year: number, month: number, data: MonthData): MentalRow[] => {
+  const monthKey = getMonthKey(year, month);
+  return data.mentalState
+    .filter((m) => Object.keys(m.values).length > 0 || m.journal)
+    .map((m) => ({ ...m, date: toDateKey(year, month, m.day), monthKey }));
+};
+
+const rowId = (row: EntryRow) => `${row.habitId}|${row.date}`;
+
+/**
+ * Store backed by IndexedDB. Checks and mental state are kept as one row per day (and
+ * per habit), indexed by habit id, date and month, so saving a month only writes the
+ * rows that changed since it was last loaded or saved.
+ *
+ * On first open, months saved by the localStorage backend are imported once; the
+ * original keys are left in place as a backup. Habit definitions live in a single
+ * registry in the meta store; months written before it existed are upgraded once.
+ * Each namespace (profile) gets its own database and reads its own legacy keys.
+ */
+export const createIndexedDbStore = (legacyStorage: Storage = window.localStorage, namespace = ''): HabitStore => {
+  const quarantinePrefix = getQuarantinePrefix(namespace);
+  // Last known entry rows per month, used to diff saves
+  const snapshots = new Map<string, Map<string, EntryRow>>();
+  // Last queued write per month. Writes of one month run one after another, so each
+  // diffs against the rows the previous one left behind.
+  const writeQueues = new Map<string, Promise<void>>();
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let registry: HabitRegistry = EMPTY_REGISTRY; // Loaded by getDb before anything else runs
+  let quarantinedRegistry: QuarantinedRegistry | null = null;
+
+  const writeRegistry = async (db: IDBDatabase, next: HabitRegistry) => {
+    const tx = db.transaction([META], 'readwrite');
+    tx.objectStore(META).put(next, REGISTRY_KEY);
+    await transactionDone(tx);
+    registry = next;
+  };
+
+  const quarantine = async (db: IDBDatabase, entry: QuarantinedMonth & { raw: string }) => {
+    const tx = db.transaction([QUARANTINE], 'readwrite');
+    tx.objectStore(QUARANTINE).put(entry);
+    await transactionDone(tx);
+  };
+
+  const writeMonthRows = async (db: IDBDatabase, year: number, month: number, data: MonthData) => {
+    const monthKey = getMonthKey(year, month);
+    const rows = toEntryRows(year, month, data);
+    const next = new Map(rows.map((row) => [rowId(row), row]));
+
+    const tx = db.transaction([MONTHS, ENTRIES, MENTAL], 'readwrite');
+    const entries = tx.objectStore(ENTRIES);
+    const mental = tx.objectStore(MENTAL);
+
+    let previous = snapshots.get(monthKey);
+    if (!previous) {
+      const existing = await promisify<EntryRow[]>(entries.index('monthKey').getAll(monthKey));
+      previous = new Map(existing.map((row) => [rowId(row), row]));
+    }
+
+    previous.forEach((row, id) => {
+      if (!next.has(id)) entries.delete([row.habitId, row.date]);
+    });
+    next.forEach((row, id) => {
+      const old = previous!.get(id);
+      if (!old || old.done !== row.done || old.value !== row.value || old.note !== row.note || old.skip !== row.skip) entries.put(row);
+    });
+
+    // Mental state is at most one small row per day; replace the month's rows
+    const mentalKeys = await promisify(mental.index('monthKey').getAllKeys(monthKey));
+    mentalKeys.forEach((key) => mental.delete(key));
+    toMentalRows(year, month, data).forEach((row) => mental.put(row));
+
+    const record: MonthRecordRow = {
+      monthKey,
+      year,
+      month,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      lastUpdated: data.lastUpdated,
+    };
+    tx.objectStore(MONTHS).put(record);
+
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      snapshots.delete(monthKey); // Unknown what was written; the next save reads the rows again
+      throw error;
+    }
+    snapshots.set(monthKey, next);
+  };
+
+  const writeMonth = (db: IDBDatabase, year: number, month: number, data: MonthData) => {
+    const monthKey = getMonthKey(year, month);
+    const write = (writeQueues.get(monthKey) ?? Promise.resolve())
+      .catch(() => undefined) // A failed write was reported to its caller; don't hold up the next one
+      .then(() => writeMonthRows(db, year, month, data));
+    writeQueues.set(monthKey, write);
+    const settled = () => {
+      if (writeQueues.get(monthKey) === write) writeQueues.delete(monthKey);
+    };
+    write.then(settled, settled);
+    return write;
+  };
+
+  const importLegacy = async (db: IDBDatabase) => {
+    const metaTx = db.transaction([META], 'readonly');
+    const imported = await promisify(metaTx.objectStore(META).get(LEGACY_IMPORTED_KEY));
+    if (imported) return;
+
+    const legacy = createLocalStorageStore(legacyStorage, namespace);
+    await writeRegistry(db, await legacy.loadRegistry());
+    for (const { year, month } of await legacy.listMonths()) {
+      const data = await legacy.loadMonth(year, month);
+      if (data) await writeMonth(db, year, month, data);
+    }
+
+    // Carry over anything the localStorage backend had set aside
+    for (let i = 0; i < legacyStorage.length; i++) {
+      const key = legacyStorage.key(i);
+      if (!key?.startsWith(quarantinePrefix)) continue;
+      try {
+        const entry = JSON.parse(legacyStorage.getItem(key) ?? '');
+        await quarantine(db, { ...entry, key });
+      } catch {
+        // Leave unreadable quarantine entries in localStorage
+      }
+    }
+
+    const tx = db.transaction([META], 'readwrite');
+    tx.objectStore(META).put(Date.now(), LEGACY_IMPORTED_KEY);
+    await transactionDone(tx);
+  };
+
+  // Builds the registry from the definitions embedded in older month rows, then drops them
+  const upgradeToRegistry = async (db: IDBDatabase) => {
+    const tx = db.transaction([MONTHS], 'readonly');
+    const records = await promisify<MonthRecordRow[]>(tx.objectStore(MONTHS).getAll());
+    await writeRegistry(db, buildRegistry(records.map((r) => ({ year: r.year, month: r.month, habits: r.habits ?? [] }))));
+
+    const rewrite = db.transaction([MONTHS], 'readwrite');
+    records.forEach(({ habits: _habits, ...record }) => {
+      rewrite.objectStore(MONTHS).put({ ...record, schemaVersion: CURRENT_SCHEMA_VERSION });
+    });
+    await transactionDone(rewrite);
+  };
+
+  const loadRegistryRow = async (db: IDBDatabase) => {
+    const tx = db.transaction([META], 'readonly');
+    const stored = await promisify(tx.objectStore(META).get(REGISTRY_KEY));
+    if (stored === undefined) {
+      await upgradeToRegistry(db);
+      return;
+    }
+    try {
+      registry = validateRegistry(stored);
+    } catch (error) {
+      // Keep the unreadable copy, since the next save replaces the row; habits reappear
+      // as they are added again
+      const key = `${REGISTRY_KEY}-unreadable-${Date.now()}`;
+      const copy = db.transaction([META], 'readwrite');
+      copy.objectStore(META).put(stored, key);
+      await transactionDone(copy);
+      quarantinedRegistry = { key, reason: error instanceof Error ? error.message : String(error) };
+      registry = EMPTY_REGISTRY;
+    }
+  };
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(getDatabaseName(namespace)).then(async (db) => {
+        await importLegacy(db);
+        await loadRegistryRow(db);
+        return db;
+      });
+    }
+    return dbPromise;
+  };
+
+  /**
+   * Rebuilds a month from its rows and validates it. Months that fail validation are
+   * quarantined and removed, and null is returned.
+   */
+  const assembleMonth = async (
+    db: IDBDatabase,
+    record: MonthRecordRow,
+    rows: EntryRow[],
+    mentalRows: MentalRow[]
+  ): Promise<MonthData | null> => {
+    const { year, month, monthKey } = record;
+    const daysInMonth = getDaysInMonth(year, month);
+    const byHabit = new Map<string, EntryRow[]>();
+    rows.forEach((row) => byHabit.set(row.habitId, [...(byHabit.get(row.habitId) ?? []), row]));
+
+    const entries: Record<string, HabitEntry> = {};
+    byHabit.forEach((habitRows, habitId) => {
+      const checks: boolean[] = Array(daysInMonth).fill(false);
+      const values: number[] = Array(daysInMonth).fill(0);
+      const notes: Record<number, string> = {};
+      const skips: Record<number, SkipReason> = {};
+      habitRows.forEach((row) => {
+        const dayIndex = Number(row.date.slice(8)) - 1;
+        checks[dayIndex] = row.done;
+        values[dayIndex] = row.value ?? 0;
+        if (row.note) notes[dayIndex] = row.note;
+        if (row.skip) skips[dayIndex] = row.skip;
+      });
+      entries[habitId] = {
+        checks,
+        ...(habitRows.some((row) => row.value !== undefined) ? { values } : {}),
+        ...(Object.keys(notes).length > 0 ? { notes } : {}),
+        ...(Object.keys(skips).length > 0 ? { skips } : {}),
+      };
+    });
+
+    const raw = {
+      schemaVersion: record.schemaVersion,
+      lastUpdated: record.lastUpdated,
+      entries,
+      mentalState: mentalRows.map(({ date: _date, monthKey: _monthKey, ...m }) => m),
+    };
+
+    try {
+      const data = resolveMonth(registry, migrateMonthData(raw), year, month);
+      // Rows read while a write is queued may predate it; that write keeps the snapshot
+      if (!writeQueues.has(monthKey)) snapshots.set(monthKey, new Map(rows.map((row) => [rowId(row), row])));
+      return data;
+    } catch (error) {
+      const quarantinedAt = Date.now();
+      await quarantine(db, {
+        key: `${quarantinePrefix}${year}-${month}-${quarantinedAt}`,
+        year,
+        month,
+        reason: error instanceof Error ? error.message : String(error),
+        quarantinedAt,
+        raw: JSON.stringify(raw),
+      });
+      const cleanup = db.transaction([MONTHS], 'readwrite');
+      cleanup.objectStore(MONTHS).delete(monthKey);
+      await transactionDone(cleanup);
+      return null;
+    }
+  };
+
+  return {
+    loadMonth: async (year, month) => {
+      const db = await getDb();
+      const monthKey = getMonthKey(year, month);
+      const tx = db.transaction([MONTHS, ENTRIES, MENTAL], 'readonly');
+      const [record, rows, mentalRows] = await Promise.all([
+        promisify<MonthRecordRow | undefined>(tx.objectStore(MONTHS).get(monthKey)),
+        promisify<EntryRow[]>(tx.objectStore(ENTRIES).index('monthKey').getAll(monthKey)),
+        promisify<MentalRow[]>(tx.objectStore(MENTAL).index('monthKey').getAll(monthKey)),
+      ]);
+      return record ? assembleMonth(db, record, rows, mentalRows) : null;
+    },
+
+    loadYear: async (year) => {
+      const db = await getDb();
+      // Month keys of one year share the "<year>-" prefix
+      const range = IDBKeyRange.bound(`${year}-`, `${year}-\uffff`);
+      const tx = db.transaction([MONTHS, ENTRIES, MENTAL], 'readonly');
+      const [records, rows, mentalRows] = await Promise.all([
+        promisify<MonthRecordRow[]>(tx.objectStore(MONTHS).getAll(range)),
+        promisify<EntryRow[]>(tx.objectStore(ENTRIES).index('monthKey').getAll(range)),
+        promisify<MentalRow[]>(tx.objectStore(MENTAL).index('monthKey').getAll(range)),
+      ]);
+
+      const result: MonthRecord[] = [];
+      for (const record of records.sort((a, b) => a.month - b.month)) {
+        const data = await assembleMonth(
+          db,
+          record,
+          rows.filter((row) => row.monthKey === record.monthKey),
+          mentalRows.filter((row) => row.monthKey === record.monthKey)
+        );
+        if (data) result.push({ year, month: record.month, data });
+      }
+      return result;
+    },
+
+    saveMonth: async (year, month, data) => {
+      await writeMonth(await getDb(), year, month, data);
+    },
+
+    loadRegistry: async () => {
+      await getDb();
+      return registry;
+    },
+
+    saveRegistry: async (next) => {
+      registry = next; // Months loaded from now on resolve against the new definitions
+      await writeRegistry(await getDb(), next);
+    },
+
+    listMonths: async () => {
+      const db = await getDb();
+      const tx = db.transaction([MONTHS], 'readonly');
+      const records = await promisify<MonthRecordRow[]>(tx.objectStore(MONTHS).getAll());
+      return records
+        .map(({ year, month }) => ({ year, month }))
+        .sort((a, b) => a.year - b.year || a.month - b.month);
+    },
+
+    listQuarantined: async () => {
+      const db = await getDb();
+      const tx = db.transaction([QUARANTINE], 'readonly');
+      const entries = await promisify<(QuarantinedMonth & { raw?: string })[]>(tx.objectStore(QUARANTINE).getAll());
+      return entries
+        .map(({ raw: _raw, ...entry }) => entry)
+        .sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+    },
+
+    discardQuarantined: async (key) => {
+      const db = await getDb();
+      const tx = db.transaction([QUARANTINE], 'readwrite');
+      tx.objectStore(QUARANTINE).delete(key);
+      await transactionDone(tx);
+    },
+
+    getQuarantinedRegistry: async () => {
+      await getDb();
+      return quarantinedRegistry;
+    },
+
+    // Bases used to be kept in localStorage; one is read from there until it is next saved
+    loadSyncBase: async (key) => {
+      const db = await getDb();
+      const tx = db.transaction([META], 'readonly');
+      const stored = await promisify(tx.objectStore(META).get(syncBaseKey(key)));
+      if (stored !== undefined) return stored;
+      try {
+        return JSON.parse(legacyStorage.getItem(getSyncBaseKey(key, namespace)) ?? 'null');
+      } catch {
+        return null;
+      }
+    },
+
+    saveSyncBase: async (key, data) => {
+      const db = await getDb();
+      const tx = db.transaction([META], 'readwrite');
+      tx.objectStore(META).put(data, syncBaseKey(key));
+      await transactionDone(tx);
+      legacyStorage.removeItem(getSyncBaseKey(key, namespace));
+    },
+
+    close: async () => {
+      if (!dbPromise) return;
+      await Promise.allSettled(writeQueues.values());
+      const opening = dbPromise;
+      dbPromise = null; // Reopened if the store is used again
+      snapshots.clear();
+      const db = await opening.catch(() => null);
+      db?.close();
+    },
+  };
+};
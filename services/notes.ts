@@ -0,0 +1,17 @@
+import { MonthRecord, NoteMatch } from '../types';
+import { findNotes } from '../utils/notes';
+import { HabitStore } from './storage';
+
+/**
+ * Searches the journal and check notes of every stored month. `current` is used instead
+ * of its stored copy, since it may not be saved yet.
+ */
+export const searchNotes = async (store: HabitStore, query: string, current: MonthRecord): Promise<NoteMatch[]> => {
+  const records: MonthRecord[] = [current];
+  for (const { year, month } of await store.listMonths()) {
+    if (year === current.year && month === current.month) continue;
+    const data = await store.loadMonth(year, month);
+    if (data) records.push({ year, month, data });
+  }
+  return findNotes(records, query);
+};
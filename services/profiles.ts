@@ -0,0 +1,98 @@
+import { PinLock, Profile, ProfileList } from '../types';
+import { isRecord } from '../utils/guards';
+import { deleteStoredData } from './habitStore';
+
+const PROFILES_KEY = 'habit-tracker-profiles';
+
+// Owns the keys written before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+const createDefaultList = (): ProfileList => ({
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Me', createdAt: Date.now() }],
+  activeId: DEFAULT_PROFILE_ID,
+});
+
+const isPinLock = (raw: unknown): raw is PinLock =>
+  isRecord(raw) && typeof raw.salt === 'string' && typeof raw.hash === 'string';
+
+const readProfile = (raw: unknown): Profile | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id || typeof raw.name !== 'string') return null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : 0,
+    ...(isPinLock(raw.pin) ? { pin: { salt: raw.pin.salt, hash: raw.pin.hash } } : {}),
+  };
+};
+
+/**
+ * Storage namespace of a profile. The default profile uses the empty namespace, so the
+ * data saved before profiles existed belongs to it without being moved.
+ */
+export const getProfileNamespace = (id: string) => (id === DEFAULT_PROFILE_ID ? '' : `p-${id}`);
+
+/**
+ * Reads the profiles on this device. The first run after upgrading finds nothing here
+ * and creates the default profile, which takes over the existing data. The default
+ * profile is always kept, and an unknown active id falls back to it.
+ */
+export const loadProfiles = (): ProfileList => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? 'null');
+    if (!isRecord(stored) || !Array.isArray(stored.profiles)) return createDefaultList();
+    const profiles = stored.profiles.map(readProfile).filter((p): p is Profile => p !== null);
+    if (!profiles.some((p) => p.id === DEFAULT_PROFILE_ID)) profiles.unshift(createDefaultList().profiles[0]);
+    const activeId = profiles.find((p) => p.id === stored.activeId)?.id ?? DEFAULT_PROFILE_ID;
+    return { profiles, activeId };
+  } catch {
+    return createDefaultList();
+  }
+};
+
+export const saveProfiles = (list: ProfileList) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(list));
+};
+
+export const addProfile = (list: ProfileList, name: string): { list: ProfileList; profile: Profile } => {
+  const profile: Profile = { id: Date.now().toString(36), name: name.trim(), createdAt: Date.now() };
+  return { list: { ...list, profiles: [...list.profiles, profile] }, profile };
+};
+
+export const updateProfile = (list: ProfileList, id: string, changes: Partial<Omit<Profile, 'id'>>): ProfileList => ({
+  ...list,
+  profiles: list.profiles.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+});
+
+/**
+ * Deletes a profile together with everything stored for it. The default profile can't
+ * be deleted; removing the active profile switches to the default one.
+ */
+export const removeProfile = async (list: ProfileList, id: string): Promise<ProfileList> => {
+  if (id === DEFAULT_PROFILE_ID) throw new Error('The default profile cannot be deleted');
+  await deleteStoredData(getProfileNamespace(id));
+  return {
+    profiles: list.profiles.filter((p) => p.id !== id),
+    activeId: list.activeId === id ? DEFAULT_PROFILE_ID : list.activeId,
+  };
+};
+
+// --- PIN lock ---
+// The PIN keeps housemates out of each other's tracker; it does not encrypt the data.
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+
+const hashPin = async (pin: string, salt: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`)));
+
+// Hashing needs crypto.subtle, which browsers only offer on secure (https or localhost) pages
+export const canUsePins = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+export const createPinLock = async (pin: string): Promise<PinLock> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { salt, hash: await hashPin(pin, salt) };
+};
+
+export const verifyPin = async (lock: PinLock, pin: string) => (await hashPin(pin, lock.salt)) === lock.hash;
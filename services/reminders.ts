@@ -0,0 +1,96 @@
+import { AppSettings, MonthRecord, PlannedReminder } from '../types';
+import { getLogicalToday } from '../utils/dates';
+import { resolveHabits } from '../utils/registry';
+import { parseTime, planReminders } from '../utils/reminders';
+import { HabitStore } from './storage';
+
+export const PERIODIC_SYNC_TAG = 'habit-reminders';
+
+// Must match CDN_HOSTS in public/sw.js
+const CDN_ORIGINS = ['https://cdn.tailwindcss.com', 'https://aistudiocdn.com'];
+
+// Periodic Background Sync is not in the DOM typings yet
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval?: number }): Promise<void>;
+}
+
+export type NotificationStatus = NotificationPermission | 'unsupported';
+
+export const getNotificationStatus = (): NotificationStatus =>
+  'Notification' in window && 'serviceWorker' in navigator ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<NotificationStatus> =>
+  getNotificationStatus() === 'unsupported' ? 'unsupported' : Notification.requestPermission();
+
+// Settles once the service worker is registered; reminders need it
+let workerRegistration: Promise<void> | null = null;
+
+const register = async () => {
+  const registration = await navigator.serviceWorker.register('./sw.js', { scope: './' });
+  if ('periodicSync' in registration) {
+    const periodicSync = registration.periodicSync as PeriodicSyncManager;
+    await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60 * 1000 }).catch(() => {
+      // Only granted to installed apps; reminders then fire while the app is open
+    });
+  }
+  // The first visit loads the app before the worker is running; hand it those files so
+  // the next start works offline too
+  const urls = performance
+    .getEntriesByType('resource')
+    .map((entry) => entry.name)
+    .filter((url) => url.startsWith(location.origin) || CDN_ORIGINS.some((origin) => url.startsWith(origin)));
+  await postToWorker({ type: 'cache-urls', urls });
+};
+
+/**
+ * Registers the service worker that caches the app shell and shows reminders. Where the
+ * browser supports periodic background sync, it is used so reminders still fire while
+ * the app is closed. A failed registration is reported by `syncReminders`.
+ */
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  workerRegistration = register();
+  workerRegistration.catch(() => undefined); // Reported by syncReminders instead
+};
+
+type WorkerMessage =
+  | { type: 'reminders'; reminders: PlannedReminder[] }
+  | { type: 'check-reminders' }
+  | { type: 'cache-urls'; urls: string[] };
+
+const postToWorker = async (message: WorkerMessage) => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+};
+
+/**
+ * Hands today's and tomorrow's reminders to the service worker and has it show any that
+ * are due. `current` is the month on screen, used instead of its stored copy since it
+ * may not be saved yet. Planning a day ahead keeps reminders going past midnight while
+ * the app stays closed.
+ */
+export const syncReminders = async (store: HabitStore, settings: AppSettings, current: MonthRecord) => {
+  if (getNotificationStatus() !== 'granted') return;
+  await workerRegistration?.catch((error) => {
+    throw new Error(`The service worker could not be registered: ${error instanceof Error ? error.message : error}`);
+  });
+  const dayStart = parseTime(settings.dayStart) ?? 0;
+  const today = getLogicalToday(new Date(), dayStart);
+  const days = [today, new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1)];
+
+  const reminders: PlannedReminder[] = [];
+  for (const date of days) {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    // A month not opened yet has every active habit unchecked
+    const habits =
+      year === current.year && month === current.month
+        ? current.data.habits
+        : (await store.loadMonth(year, month))?.habits ??
+          resolveHabits(await store.loadRegistry(), {}, year, month, settings.weekStart);
+    reminders.push(...planReminders(date, habits, settings.reminders, settings.quietHours, settings.weekStart, dayStart));
+  }
+  await postToWorker({ type: 'reminders', reminders });
+  await postToWorker({ type: 'check-reminders' });
+};
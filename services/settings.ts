@@ -0,0 +1,62 @@
+import { AppSettings, QuietHours, SyncSettings } from '../types';
+import { DEFAULT_WEEK_START } from '../utils/dates';
+import { parseTime } from '../utils/reminders';
+import { isRecord } from '../utils/guards';
+import { getKeyPrefix } from './storage';
+
+const getSettingsKey = (namespace: string) => `${getKeyPrefix(namespace)}settings`;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  weekStart: DEFAULT_WEEK_START,
+  reminders: {},
+  quietHours: null,
+  sync: null,
+  dayStart: '00:00',
+  yesterdayGraceHours: null,
+};
+
+const readReminders = (raw: unknown): Record<string, string> =>
+  isRecord(raw)
+    ? Object.fromEntries(
+        Object.entries(raw).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && parseTime(entry[1]) !== null)
+      )
+    : {};
+
+const readQuietHours = (raw: unknown): QuietHours | null =>
+  isRecord(raw) && typeof raw.start === 'string' && typeof raw.end === 'string' && parseTime(raw.start) !== null && parseTime(raw.end) !== null
+    ? { start: raw.start, end: raw.end }
+    : null;
+
+const readSync = (raw: unknown): SyncSettings | null =>
+  isRecord(raw) && typeof raw.url === 'string' && raw.url && typeof raw.space === 'string' && raw.space
+    ? { url: raw.url, space: raw.space, ...(typeof raw.token === 'string' && raw.token ? { token: raw.token } : {}) }
+    : null;
+
+const readGraceHours = (raw: unknown): number | null =>
+  typeof raw === 'number' && Number.isInteger(raw) && raw >= 1 && raw <= 24 ? raw : null;
+
+/**
+ * Reads a profile's settings. Settings are small and needed before the first render,
+ * so they live in localStorage and are read synchronously. Unknown or invalid fields
+ * fall back to their defaults.
+ */
+export const loadSettings = (namespace = ''): AppSettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(getSettingsKey(namespace)) ?? '{}');
+    if (!isRecord(stored)) return DEFAULT_SETTINGS;
+    return {
+      weekStart: stored.weekStart === 0 || stored.weekStart === 1 ? stored.weekStart : DEFAULT_SETTINGS.weekStart,
+      reminders: readReminders(stored.reminders),
+      quietHours: readQuietHours(stored.quietHours),
+      sync: readSync(stored.sync),
+      dayStart: typeof stored.dayStart === 'string' && parseTime(stored.dayStart) !== null ? stored.dayStart : DEFAULT_SETTINGS.dayStart,
+      yesterdayGraceHours: readGraceHours(stored.yesterdayGraceHours),
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings, namespace = '') => {
+  localStorage.setItem(getSettingsKey(namespace), JSON.stringify(settings));
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_METRICS } from '../constants';
+import { CURRENT_SCHEMA_VERSION, StorageValidationError, migrateMonthData, readEmbeddedHabits, validateRegistry } from './storage';
+
+const unversioned = {
+  habits: [{ id: 'read', name: 'Read', icon: '📖', goal: 20, checks: [true, false] }],
+  mentalState: [{ day: 1, mood: 4, motivation: 0 }],
+  lastUpdated: 5,
+};
+
+describe('migrateMonthData', () => {
+  it('brings unversioned data to the current schema', () => {
+    expect(migrateMonthData(unversioned)).toEqual({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      entries: { read: { checks: [true, false] } },
+      mentalState: [{ day: 1, values: { mood: 4 } }],
+      lastUpdated: 5,
+    });
+  });
+
+  it('rejects data that does not validate', () => {
+    expect(() => migrateMonthData({ ...unversioned, habits: [null] })).toThrow(StorageValidationError);
+    expect(() => migrateMonthData({ ...unversioned, mentalState: 'calm' })).toThrow(StorageValidationError);
+    expect(() => migrateMonthData([])).toThrow(StorageValidationError);
+  });
+});
+
+describe('readEmbeddedHabits', () => {
+  it('fills in the fields older builds did not write', () => {
+    expect(readEmbeddedHabits(unversioned)).toEqual([
+      { ...unversioned.habits[0], kind: 'boolean', schedule: { type: 'daily' } },
+    ]);
+    expect(readEmbeddedHabits('not a month')).toEqual([]);
+  });
+});
+
+describe('validateRegistry', () => {
+  const revision = { from: '2026-01', name: 'Run', icon: '🏃', schedule: { type: 'weekly', timesPerWeek: 3 } };
+  const registry = (fields: object) => ({
+    habits: [{ id: 'run', activeFrom: '2026-01', revisions: [{ ...revision, ...fields }] }],
+    lastUpdated: 1,
+  });
+
+  it('accepts a well-formed registry and fills in the default metrics', () => {
+    expect(validateRegistry(registry({}))).toEqual({ ...registry({}), metrics: DEFAULT_METRICS });
+  });
+
+  it('rejects revisions with malformed schedules or measures', () => {
+    [
+      { schedule: { type: 'weekly' } },
+      { schedule: { type: 'weekdays', days: [1, 9] } },
+      { schedule: { type: 'hourly' } },
+      { kind: 'sometimes' },
+      { target: '5' },
+    ].forEach((fields) => expect(() => validateRegistry(registry(fields))).toThrow(StorageValidationError));
+  });
+});
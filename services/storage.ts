@@ -0,0 +1,441 @@
+import {
+  Habit,
+  HabitDefinition,
+  HabitEntry,
+  HabitRegistry,
+  HabitRevision,
+  HabitSchedule,
+  MentalState,
+  MetricDefinition,
+  MonthData,
+  MonthRecord,
+  QuarantinedMonth,
+  QuarantinedRegistry,
+  StoredMonth,
+} from '../types';
+import { DEFAULT_METRICS } from '../constants';
+import { EMPTY_REGISTRY, buildRegistry, resolveMonth, toStoredMonth } from '../utils/registry';
+import { isRecord } from '../utils/guards';
+
+// --- Schema ---
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+interface Migration {
+  version: number; // Version the data has after this step
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+// Ordered list of upgrades. Each step receives data at `version - 1`.
+const MIGRATIONS: Migration[] = [
+  {
+    // Unversioned data: fill in fields that older builds did not write
+    version: 1,
+    migrate: (data) => ({
+      ...data,
+      habits: Array.isArray(data.habits)
+        ? data.habits.map((h) =>
+            isRecord(h) ? { ...h, kind: h.kind ?? 'boolean', schedule: h.schedule ?? { type: 'daily' } } : h
+          )
+        : data.habits ?? [],
+      mentalState: data.mentalState ?? [],
+      lastUpdated: data.lastUpdated ?? 0,
+    }),
+  },
+  {
+    // Definitions move to the habit registry; months keep check data keyed by habit id.
+    // Stores build the registry from the embedded definitions before this step runs.
+    version: 2,
+    migrate: ({ habits, ...data }) => {
+      if (!Array.isArray(habits) || !habits.every(isHabit)) {
+        throw new StorageValidationError('Invalid habits');
+      }
+      return {
+        ...data,
+        entries: Object.fromEntries(
+          habits.map((h) => [h.id, h.values ? { checks: h.checks, values: h.values } : { checks: h.checks }])
+        ),
+      };
+    },
+  },
+  {
+    // Mood and motivation move into per-metric values. 0 meant "not rated", so it is dropped.
+    version: 3,
+    migrate: (data) => ({
+      ...data,
+      mentalState: Array.isArray(data.mentalState)
+        ? data.mentalState.map((entry) => {
+            if (!isRecord(entry)) return entry;
+            const { mood, motivation, ...m } = entry;
+            return {
+              ...m,
+              values: {
+                ...(typeof mood === 'number' && mood > 0 ? { mood } : {}),
+                ...(typeof motivation === 'number' && motivation > 0 ? { motivation } : {}),
+              },
+            };
+          })
+        : data.mentalState ?? [],
+    }),
+  },
+];
+
+export class StorageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageValidationError';
+  }
+}
+
+const isNumberArray = (value: unknown) => Array.isArray(value) && value.every((v) => typeof v === 'number');
+
+const isHabit = (value: unknown): value is Habit =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.icon === 'string' &&
+  typeof value.goal === 'number' &&
+  Array.isArray(value.checks) &&
+  (value.values === undefined || isNumberArray(value.values));
+
+const isNotes = (value: unknown) => isRecord(value) && Object.values(value).every((v) => typeof v === 'string');
+
+const isSkips = (value: unknown) =>
+  isRecord(value) &&
+  Object.values(value).every((v) => v === 'skipped' || v === 'excused' || v === 'slipped');
+
+const isHabitEntry = (value: unknown): value is HabitEntry =>
+  isRecord(value) &&
+  Array.isArray(value.checks) &&
+  (value.values === undefined || isNumberArray(value.values)) &&
+  (value.notes === undefined || isNotes(value.notes)) &&
+  (value.skips === undefined || isSkips(value.skips));
+
+const isEntries = (value: unknown): value is Record<string, HabitEntry> =>
+  isRecord(value) && Object.values(value).every(isHabitEntry);
+
+const isMentalState = (value: unknown): value is MentalState =>
+  isRecord(value) &&
+  typeof value.day === 'number' &&
+  isRecord(value.values) &&
+  Object.values(value.values).every((v) => typeof v === 'number') &&
+  (value.journal === undefined || typeof value.journal === 'string');
+
+/**
+ * Runs every pending migration on raw parsed data and validates the result.
+ * Throws a StorageValidationError if the data cannot be brought to the current schema.
+ */
+export const migrateMonthData = (raw: unknown): StoredMonth => {
+  if (!isRecord(raw)) {
+    throw new StorageValidationError('Month data is not an object');
+  }
+
+  let data = raw;
+  const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new StorageValidationError(`Schema version ${fromVersion} is newer than this app supports`);
+  }
+
+  MIGRATIONS.filter((m) => m.version > fromVersion).forEach((m) => {
+    data = { ...m.migrate(data), schemaVersion: m.version };
+  });
+
+  const { entries, mentalState, lastUpdated } = data;
+  if (!isEntries(entries)) {
+    throw new StorageValidationError('Invalid habit entries');
+  }
+  if (!Array.isArray(mentalState) || !mentalState.every(isMentalState)) {
+    throw new StorageValidationError('Invalid mental state');
+  }
+  if (typeof lastUpdated !== 'number') {
+    throw new StorageValidationError('Invalid lastUpdated');
+  }
+  return { ...data, entries, mentalState, lastUpdated };
+};
+
+/**
+ * Habit definitions embedded in month data from before the registry, where every month
+ * carried its own copy. Empty for current data or when the habits are unreadable.
+ */
+export const readEmbeddedHabits = (raw: unknown): Habit[] => {
+  if (!isRecord(raw)) return [];
+  const version = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (version >= 2 || !Array.isArray(raw.habits)) return [];
+  const habits = version < 1 ? MIGRATIONS[0].migrate(raw).habits : raw.habits;
+  return Array.isArray(habits) && habits.every(isHabit) ? habits : [];
+};
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isSchedule = (value: unknown): value is HabitSchedule => {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return isInteger(value.timesPerWeek, 1, 7);
+    case 'weekdays':
+      return Array.isArray(value.days) && value.days.every((day) => isInteger(day, 0, 6));
+    case 'monthly':
+      return isInteger(value.count, 1, 31);
+    default:
+      return false;
+  }
+};
+
+const isRevision = (value: unknown): value is HabitRevision =>
+  isRecord(value) &&
+  typeof value.from === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.icon === 'string' &&
+  (value.schedule === undefined || isSchedule(value.schedule)) &&
+  (value.kind === undefined || value.kind === 'boolean' || value.kind === 'quantity' || value.kind === 'quit') &&
+  (value.unit === undefined || typeof value.unit === 'string') &&
+  (value.target === undefined || (typeof value.target === 'number' && value.target >= 0));
+
+const isMetric = (value: unknown): value is MetricDefinition =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.min === 'number' &&
+  typeof value.max === 'number' &&
+  value.min < value.max &&
+  typeof value.step === 'number' &&
+  value.step > 0 &&
+  typeof value.color === 'string';
+
+const isMetrics = (value: unknown): value is MetricDefinition[] => Array.isArray(value) && value.every(isMetric);
+
+const isGap = (value: unknown) => isRecord(value) && typeof value.from === 'string' && typeof value.to === 'string';
+
+const isDefinition = (value: unknown): value is HabitDefinition =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.activeFrom === 'string' &&
+  (value.activeTo === undefined || typeof value.activeTo === 'string') &&
+  (value.gaps === undefined || (Array.isArray(value.gaps) && value.gaps.every(isGap))) &&
+  (value.archivedAt === undefined || typeof value.archivedAt === 'number') &&
+  Array.isArray(value.revisions) &&
+  value.revisions.length > 0 &&
+  value.revisions.every(isRevision);
+
+/**
+ * Validates a stored or imported registry. Throws a StorageValidationError if it is unusable.
+ * Registries from before custom metrics get the default ones.
+ */
+export const validateRegistry = (raw: unknown): HabitRegistry => {
+  if (
+    !isRecord(raw) ||
+    !Array.isArray(raw.habits) ||
+    !raw.habits.every(isDefinition) ||
+    typeof raw.lastUpdated !== 'number' ||
+    (raw.metrics !== undefined && !isMetrics(raw.metrics))
+  ) {
+    throw new StorageValidationError('Invalid habit registry');
+  }
+  return { habits: raw.habits, metrics: isMetrics(raw.metrics) ? raw.metrics : DEFAULT_METRICS, lastUpdated: raw.lastUpdated };
+};
+
+// --- Store API ---
+
+/**
+ * Async persistence API used by the app. Implementations may be synchronous
+ * underneath; callers should not assume so.
+ */
+export interface HabitStore {
+  // Resolves to null when the month has no data or its data was unreadable.
+  // Habits are resolved from the registry; saving keeps only their check data.
+  loadMonth: (year: number, month: number) => Promise<MonthData | null>;
+  saveMonth: (year: number, month: number, data: MonthData) => Promise<void>;
+  loadRegistry: () => Promise<HabitRegistry>;
+  saveRegistry: (registry: HabitRegistry) => Promise<void>;
+  // Every stored month of a calendar year, in order. Backends can load these in bulk.
+  loadYear: (year: number) => Promise<MonthRecord[]>;
+  // Every month that has stored data, oldest first
+  listMonths: () => Promise<{ year: number; month: number }[]>;
+  listQuarantined: () => Promise<QuarantinedMonth[]>;
+  discardQuarantined: (key: string) => Promise<void>;
+  // The unreadable registry set aside while loading, if there was one
+  getQuarantinedRegistry: () => Promise<QuarantinedRegistry | null>;
+  // Copy of a synced document as of the last sync, which merges run against
+  loadSyncBase: (key: string) => Promise<unknown>;
+  saveSyncBase: (key: string, data: unknown) => Promise<void>;
+  // Lets queued writes finish and releases open connections, e.g. before the data is deleted
+  close: () => Promise<void>;
+}
+
+/**
+ * Prefix of every key a profile's data is stored under. The default namespace ('')
+ * keeps the keys used before profiles existed, so that data stays where it is.
+ */
+export const getKeyPrefix = (namespace: string) => `habit-tracker-${namespace ? `${namespace}-` : ''}`;
+
+export const getQuarantinePrefix = (namespace: string) => `${getKeyPrefix(namespace)}quarantine-`;
+
+const getDataPrefix = (namespace: string) => `${getKeyPrefix(namespace)}data-`;
+
+export const getSyncBaseKey = (key: string, namespace = '') => `${getKeyPrefix(namespace)}sync-base-${key}`;
+
+export const getStorageKey = (year: number, month: number, namespace = '') =>
+  `${getDataPrefix(namespace)}${year}-${month}`;
+
+// Inverse of getStorageKey; null for keys that are not month data of the namespace
+export const parseStorageKey = (key: string, namespace = ''): { year: number; month: number } | null => {
+  const prefix = getDataPrefix(namespace);
+  const match = key.startsWith(prefix) ? /^(\d+)-(\d+)$/.exec(key.slice(prefix.length)) : null;
+  return match ? { year: Number(match[1]), month: Number(match[2]) } : null;
+};
+
+/**
+ * Store backed by `localStorage`, one JSON entry per month plus the habit registry.
+ * Entries that fail to parse or validate are moved aside to a quarantine key instead
+ * of crashing the app. Keys are prefixed with the namespace, one per profile.
+ *
+ * Data saved before the registry existed is upgraded on first use: the registry is
+ * built from the definitions every month embedded, then the months are rewritten.
+ */
+export const createLocalStorageStore = (storage: Storage = window.localStorage, namespace = ''): HabitStore => {
+  let registryPromise: Promise<HabitRegistry> | null = null;
+  let quarantinedRegistry: QuarantinedRegistry | null = null;
+  const registryKey = `${getKeyPrefix(namespace)}registry`;
+  const quarantinePrefix = getQuarantinePrefix(namespace);
+  const storageKey = (year: number, month: number) => getStorageKey(year, month, namespace);
+
+  const monthKeys = () => {
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key && parseStorageKey(key, namespace)) keys.push(key);
+    }
+    return keys;
+  };
+
+  const upgradeToRegistry = (): HabitRegistry => {
+    const months = monthKeys().flatMap((key) => {
+      try {
+        const raw = JSON.parse(storage.getItem(key) ?? '');
+        return [{ key, raw, ...parseStorageKey(key, namespace)!, habits: readEmbeddedHabits(raw) }];
+      } catch {
+        return []; // Quarantined when the month is loaded
+      }
+    });
+    const registry = buildRegistry(months);
+    storage.setItem(registryKey, JSON.stringify(registry));
+    months.forEach(({ key, raw }) => {
+      try {
+        storage.setItem(key, JSON.stringify(migrateMonthData(raw)));
+      } catch {
+        // Left as is, to be quarantined when loaded
+      }
+    });
+    return registry;
+  };
+
+  const readRegistry = async (): Promise<HabitRegistry> => {
+    const raw = storage.getItem(registryKey);
+    if (raw === null) return upgradeToRegistry();
+    try {
+      return validateRegistry(JSON.parse(raw));
+    } catch (error) {
+      // Keep the unreadable copy; habits reappear as they are added again
+      const key = `${registryKey}-unreadable-${Date.now()}`;
+      storage.setItem(key, raw);
+      quarantinedRegistry = { key, reason: error instanceof Error ? error.message : String(error) };
+      return EMPTY_REGISTRY;
+    }
+  };
+
+  const loadRegistry = () => {
+    if (!registryPromise) registryPromise = readRegistry();
+    return registryPromise;
+  };
+
+  const quarantine = (year: number, month: number, raw: string, reason: string) => {
+    const quarantinedAt = Date.now();
+    const key = `${quarantinePrefix}${year}-${month}-${quarantinedAt}`;
+    const entry: QuarantinedMonth & { raw: string } = { key, year, month, reason, quarantinedAt, raw };
+    storage.setItem(key, JSON.stringify(entry));
+    storage.removeItem(storageKey(year, month));
+  };
+
+  const loadMonth = async (year: number, month: number) => {
+    const registry = await loadRegistry();
+    const raw = storage.getItem(storageKey(year, month));
+    if (raw === null) return null;
+    try {
+      return resolveMonth(registry, migrateMonthData(JSON.parse(raw)), year, month);
+    } catch (error) {
+      quarantine(year, month, raw, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  };
+
+  return {
+    loadMonth,
+    loadRegistry,
+
+    saveRegistry: async (registry) => {
+      registryPromise = Promise.resolve(registry);
+      storage.setItem(registryKey, JSON.stringify(registry));
+    },
+
+    loadYear: async (year) => {
+      const records: MonthRecord[] = [];
+      for (let month = 0; month < 12; month++) {
+        const data = await loadMonth(year, month);
+        if (data) records.push({ year, month, data });
+      }
+      return records;
+    },
+
+    saveMonth: async (year, month, data) => {
+      await loadRegistry(); // Older months must be upgraded before new ones are written
+      const versioned: StoredMonth = { ...toStoredMonth(data), schemaVersion: CURRENT_SCHEMA_VERSION };
+      storage.setItem(storageKey(year, month), JSON.stringify(versioned));
+    },
+
+    listMonths: async () =>
+      monthKeys()
+        .map((key) => parseStorageKey(key, namespace)!)
+        .sort((a, b) => a.year - b.year || a.month - b.month),
+
+    listQuarantined: async () => {
+      const entries: QuarantinedMonth[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (!key?.startsWith(quarantinePrefix)) continue;
+        try {
+          const { raw: _raw, ...entry } = JSON.parse(storage.getItem(key) ?? '');
+          entries.push(entry);
+        } catch {
+          entries.push({ key, year: 0, month: 0, reason: 'Unreadable quarantine entry', quarantinedAt: 0 });
+        }
+      }
+      return entries.sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+    },
+
+    discardQuarantined: async (key) => {
+      if (key.startsWith(quarantinePrefix)) storage.removeItem(key);
+    },
+
+    getQuarantinedRegistry: async () => {
+      await loadRegistry();
+      return quarantinedRegistry;
+    },
+
+    loadSyncBase: async (key) => {
+      try {
+        return JSON.parse(storage.getItem(getSyncBaseKey(key, namespace)) ?? 'null');
+      } catch {
+        return null;
+      }
+    },
+
+    saveSyncBase: async (key, data) => {
+      storage.setItem(getSyncBaseKey(key, namespace), JSON.stringify(data));
+    },
+
+    close: async () => undefined, // Writes are synchronous and there is no connection
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { MonthData, StoredMonth, SyncStatus } from '../types';
+import { toMonthKey } from '../utils/dates';
+import { setDayDone } from '../utils/habits';
+import { addDefinition, EMPTY_REGISTRY, resolveMonth } from '../utils/registry';
+import { createMemoryStorage } from './memoryStorage';
+import { createLocalStorageStore } from './storage';
+import { SyncClient, SyncTransport, createMemorySyncTransport, createSyncClient } from './sync';
+
+const YEAR = 2026;
+const MONTH = 4;
+const MONTH_DOC = toMonthKey(YEAR, MONTH);
+const REGISTRY = addDefinition(EMPTY_REGISTRY, 'read', { name: 'Read', icon: '📖' }, MONTH_DOC);
+
+// A device: its own store and sync state, talking to the shared transport
+const createDevice = async (transport: SyncTransport, checkedDay: number) => {
+  const store = createLocalStorageStore(createMemoryStorage());
+  await store.saveRegistry(REGISTRY);
+  const empty: MonthData = resolveMonth(REGISTRY, { entries: {}, mentalState: [], lastUpdated: 0 }, YEAR, MONTH);
+  await store.saveMonth(YEAR, MONTH, { ...empty, habits: empty.habits.map((h) => setDayDone(h, checkedDay, true)), lastUpdated: checkedDay });
+  const client = createSyncClient({
+    store,
+    transport,
+    settings: { url: 'memory', space: 'test' },
+    namespace: '',
+    storage: createMemoryStorage(),
+    onStatus: () => undefined,
+    onRemoteChange: () => undefined,
+  });
+  return { store, client };
+};
+
+const checkedDays = async (device: { store: ReturnType<typeof createLocalStorageStore> }) =>
+  (await device.store.loadMonth(YEAR, MONTH))!.habits[0].checks.flatMap((done, i) => (done ? [i] : []));
+
+describe('createSyncClient', () => {
+  it('merges the server copy and pushes again when another device wrote first', async () => {
+    const server = createMemorySyncTransport();
+    const a = await createDevice(server, 1);
+
+    // B lists changes before A has pushed, so its push of the month runs into A's copy
+    let other: SyncClient | null = a.client;
+    const conflicts: string[] = [];
+    const racing: SyncTransport = {
+      ...server,
+      putDoc: async (key, baseRev, data) => {
+        if (other && key === MONTH_DOC) {
+          const first = other;
+          other = null;
+          await first.sync();
+        }
+        const result = await server.putDoc(key, baseRev, data);
+        if ('conflict' in result) conflicts.push(key);
+        return result;
+      },
+    };
+    const b = await createDevice(racing, 2);
+    await b.client.sync();
+
+    expect(conflicts).toEqual([MONTH_DOC]);
+    expect(await checkedDays(b)).toEqual([1, 2]);
+    const stored = (await server.getDoc(MONTH_DOC))!.data as StoredMonth;
+    expect(stored.entries.read.checks.slice(0, 3)).toEqual([false, true, true]);
+
+    await a.client.sync();
+    expect(await checkedDays(a)).toEqual([1, 2]);
+  });
+
+  it('keeps merge bases in the store and reports a failed first sync as an error', async () => {
+    const server = createMemorySyncTransport();
+    const a = await createDevice(server, 1);
+    await a.client.sync();
+    expect(await a.store.loadSyncBase(MONTH_DOC)).toEqual((await server.getDoc(MONTH_DOC))!.data);
+
+    const statuses: SyncStatus[] = [];
+    const store = createLocalStorageStore(createMemoryStorage());
+    const client = createSyncClient({
+      store: { ...store, listMonths: () => Promise.reject(new Error('Store unavailable')) },
+      transport: server,
+      settings: { url: 'memory', space: 'test' },
+      namespace: '',
+      storage: createMemoryStorage(),
+      onStatus: (status) => statuses.push(status),
+      onRemoteChange: () => undefined,
+    });
+    await client.sync();
+    expect(statuses[statuses.length - 1]).toMatchObject({ state: 'error', message: 'Store unavailable' });
+  });
+});
@@ -0,0 +1,362 @@
+import { HabitRegistry, StoredMonth, SyncSettings, SyncStatus } from '../types';
+import { parseMonthKey, toMonthKey } from '../utils/dates';
+import { isRecord } from '../utils/guards';
+import { resolveMonth, toStoredMonth } from '../utils/registry';
+import { EMPTY_STORED_MONTH, mergeRegistries, mergeStoredMonths, normalizeStoredMonth } from '../utils/sync';
+import { CURRENT_SCHEMA_VERSION, HabitStore, getKeyPrefix, migrateMonthData, validateRegistry } from './storage';
+
+// Documents on the server: the habit registry, and one per month keyed 'YYYY-MM'
+export const REGISTRY_DOC = 'registry';
+
+export interface SyncDoc {
+  key: string;
+  rev: number; // Server-wide counter, bumped on every write
+  data: unknown;
+}
+
+// A write either lands with a new revision or conflicts with the server's newer copy
+export type PutResult = { rev: number } | { conflict: SyncDoc };
+
+/**
+ * Connection to a sync server. The server only stores documents with a revision; every
+ * merge happens on the client. See `server/sync-server.mjs` for the reference server
+ * and `createMemorySyncTransport` for an in-memory stand-in.
+ */
+export interface SyncTransport {
+  // Documents written after revision `since`, and the latest revision
+  listChanges: (since: number) => Promise<{ rev: number; docs: { key: string; rev: number }[] }>;
+  getDoc: (key: string) => Promise<SyncDoc | null>;
+  // Writes unless the server's copy has moved past `baseRev`; returns that copy instead
+  putDoc: (key: string, baseRev: number, data: unknown) => Promise<PutResult>;
+}
+
+// The server couldn't be reached; edits stay queued
+export class SyncOfflineError extends Error {
+  constructor(message = 'Sync server unreachable') {
+    super(message);
+    this.name = 'SyncOfflineError';
+  }
+}
+
+export const createHttpTransport = ({ url, space, token }: SyncSettings): SyncTransport => {
+  const base = `${url.replace(/\/+$/, '')}/spaces/${encodeURIComponent(space)}`;
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    let response: Response;
+    try {
+      response = await fetch(`${base}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+      });
+    } catch {
+      throw new SyncOfflineError();
+    }
+    if (response.status === 401) throw new Error('The sync server rejected the token');
+    if (!response.ok && response.status !== 404 && response.status !== 409) {
+      throw new Error(`The sync server responded with ${response.status}`);
+    }
+    return response;
+  };
+
+  return {
+    listChanges: async (since) => (await request(`/changes?since=${since}`)).json(),
+    getDoc: async (key) => {
+      const response = await request(`/docs/${encodeURIComponent(key)}`);
+      return response.status === 404 ? null : response.json();
+    },
+    putDoc: async (key, baseRev, data) => {
+      const response = await request(`/docs/${encodeURIComponent(key)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ baseRev, data }),
+      });
+      return response.status === 409 ? { conflict: await response.json() } : { rev: (await response.json()).rev };
+    },
+  };
+};
+
+/**
+ * In-memory stand-in for the sync server with the same revision rules. Clients sharing
+ * one transport behave like devices syncing through the same space.
+ */
+export const createMemorySyncTransport = (): SyncTransport => {
+  const docs = new Map<string, SyncDoc>();
+  let rev = 0;
+  const copy = (doc: SyncDoc): SyncDoc => JSON.parse(JSON.stringify(doc));
+
+  return {
+    listChanges: async (since) => ({
+      rev,
+      docs: [...docs.values()].filter((doc) => doc.rev > since).map(({ key, rev }) => ({ key, rev })),
+    }),
+    getDoc: async (key) => {
+      const doc = docs.get(key);
+      return doc ? copy(doc) : null;
+    },
+    putDoc: async (key, baseRev, data) => {
+      const current = docs.get(key);
+      if (current && current.rev !== baseRev) return { conflict: copy(current) };
+      rev += 1;
+      docs.set(key, copy({ key, rev, data }));
+      return { rev };
+    },
+  };
+};
+
+// --- Client ---
+
+interface SyncState {
+  target: string; // Server and space the state belongs to
+  cursor: number; // Latest server revision pulled
+  revs: Record<string, number>; // Server revision each local document was last merged with
+  pending: string[]; // Documents edited locally since; the offline queue
+}
+
+type LocalDoc = { kind: 'registry'; data: HabitRegistry } | { kind: 'month'; data: StoredMonth };
+
+interface SyncClientOptions {
+  store: HabitStore;
+  transport: SyncTransport;
+  settings: SyncSettings;
+  namespace: string;
+  storage?: Storage;
+  onStatus: (status: SyncStatus) => void;
+  // Called just before merged data overwrites a local document; until the app reloads
+  // it (see onRemoteChange), its copy in memory is stale and must not be saved
+  onRemoteWrite?: (key: string) => void;
+  // Keys of documents that remote edits changed locally, once a sync round ends
+  onRemoteChange: (keys: string[]) => void;
+}
+
+export interface SyncClient {
+  markChanged: (key: string) => void;
+  // Queues every local document, e.g. after a backup import
+  markAllChanged: () => Promise<void>;
+  sync: () => Promise<void>;
+  // Syncs now, whenever the connection comes back and every minute; returns a stop function
+  start: () => () => void;
+}
+
+const isSyncState = (value: unknown): value is SyncState =>
+  isRecord(value) &&
+  typeof value.target === 'string' &&
+  typeof value.cursor === 'number' &&
+  isRecord(value.revs) &&
+  Object.values(value.revs).every((rev) => typeof rev === 'number') &&
+  Array.isArray(value.pending) &&
+  value.pending.every((key) => typeof key === 'string');
+
+const withVersion = (month: StoredMonth): StoredMonth => ({ ...month, schemaVersion: CURRENT_SCHEMA_VERSION });
+
+const SYNC_INTERVAL = 60 * 1000;
+const PUSH_DELAY = 2 * 1000; // Batches a burst of edits into one sync
+const MAX_PUSH_ATTEMPTS = 3;
+
+/**
+ * Keeps a profile's store in sync with a server. Local edits are queued (and the queue
+ * persisted) until they are pushed; pulled documents are merged into the local copy
+ * per habit and day against the version last synced, which is kept as the merge base.
+ * A document the app saved while it was being merged is left for the next round.
+ */
+export const createSyncClient = ({
+  store,
+  transport,
+  settings,
+  namespace,
+  storage = window.localStorage,
+  onStatus,
+  onRemoteWrite,
+  onRemoteChange,
+}: SyncClientOptions): SyncClient => {
+  const stateKey = `${getKeyPrefix(namespace)}sync`;
+  const target = `${settings.url}|${settings.space}`;
+
+  const readState = (): SyncState | null => {
+    try {
+      const stored: unknown = JSON.parse(storage.getItem(stateKey) ?? 'null');
+      return isSyncState(stored) && stored.target === target ? stored : null;
+    } catch {
+      return null;
+    }
+  };
+  // Nothing synced with this server yet: everything stored locally gets pushed
+  let firstSync = readState() === null;
+  const state: SyncState = readState() ?? { target, cursor: 0, revs: {}, pending: [] };
+  const saveState = () => storage.setItem(stateKey, JSON.stringify(state));
+
+  const setPending = (key: string, pending: boolean) => {
+    const rest = state.pending.filter((k) => k !== key);
+    // The registry goes first, so months resolve against every habit they mention
+    state.pending = pending ? (key === REGISTRY_DOC ? [key, ...rest] : [...rest, key]) : rest;
+    saveState();
+  };
+
+  const readLocal = async (key: string): Promise<LocalDoc | null> => {
+    if (key === REGISTRY_DOC) return { kind: 'registry', data: await store.loadRegistry() };
+    const { year, month } = parseMonthKey(key);
+    const data = await store.loadMonth(year, month);
+    // Versioned, so the other side's migrations leave it alone
+    return data ? { kind: 'month', data: withVersion(normalizeStoredMonth(toStoredMonth(data))) } : null;
+  };
+
+  const fingerprint = (doc: LocalDoc | null) => (doc ? JSON.stringify(doc.data) : '');
+
+  // Writes merged data unless the app saved the document since `before` was read
+  const writeLocal = async (key: string, before: LocalDoc | null, data: HabitRegistry | StoredMonth) => {
+    if (fingerprint(await readLocal(key)) !== fingerprint(before)) return false;
+    onRemoteWrite?.(key);
+    if (key === REGISTRY_DOC) {
+      await store.saveRegistry(data as HabitRegistry);
+    } else {
+      const { year, month } = parseMonthKey(key);
+      await store.saveMonth(year, month, resolveMonth(await store.loadRegistry(), data as StoredMonth, year, month));
+    }
+    return true;
+  };
+
+  // Bases are only written from validated data, but are read back like any stored data
+  const readBase = async (key: string): Promise<HabitRegistry | StoredMonth | null> => {
+    const base = await store.loadSyncBase(key);
+    if (base === null || base === undefined) return null;
+    try {
+      return key === REGISTRY_DOC ? validateRegistry(base) : migrateMonthData(base);
+    } catch {
+      return null; // Merged like a first sync
+    }
+  };
+
+  const changedKeys = new Set<string>();
+  const skippedKeys = new Set<string>();
+
+  // Merges a server document into the local copy; false if the app got in the way
+  const applyRemote = async (doc: SyncDoc) => {
+    let remote: HabitRegistry | StoredMonth;
+    try {
+      remote = doc.key === REGISTRY_DOC ? validateRegistry(doc.data) : migrateMonthData(doc.data);
+    } catch {
+      // Left out; the status reports it and the local copy stays as it is
+      skippedKeys.add(doc.key);
+      state.revs[doc.key] = doc.rev;
+      return true;
+    }
+    const local = await readLocal(doc.key);
+    const base = await readBase(doc.key);
+    const merged =
+      doc.key === REGISTRY_DOC
+        ? mergeRegistries(base as HabitRegistry | null, local!.data as HabitRegistry, remote as HabitRegistry)
+        : withVersion(mergeStoredMonths(base as StoredMonth | null, (local?.data as StoredMonth) ?? EMPTY_STORED_MONTH, remote as StoredMonth));
+    if (doc.key !== REGISTRY_DOC) remote = withVersion(normalizeStoredMonth(remote as StoredMonth));
+    if (JSON.stringify(merged) !== fingerprint(local)) {
+      if (!(await writeLocal(doc.key, local, merged))) return false;
+      changedKeys.add(doc.key);
+    }
+    await store.saveSyncBase(doc.key, remote);
+    state.revs[doc.key] = doc.rev;
+    setPending(doc.key, JSON.stringify(merged) !== JSON.stringify(remote));
+    return true;
+  };
+
+  const push = async (key: string) => {
+    for (let attempt = 0; attempt < MAX_PUSH_ATTEMPTS; attempt++) {
+      const local = await readLocal(key);
+      if (!local) return setPending(key, false);
+      const result = await transport.putDoc(key, state.revs[key] ?? 0, local.data);
+      if ('conflict' in result) {
+        // Someone else wrote first: merge their copy in and try again
+        if (!(await applyRemote(result.conflict))) return;
+        if (!state.pending.includes(key)) return;
+        continue;
+      }
+      state.revs[key] = result.rev;
+      await store.saveSyncBase(key, local.data);
+      // Edited again while the push was under way: stays queued
+      setPending(key, fingerprint(await readLocal(key)) !== fingerprint(local));
+      return;
+    }
+  };
+
+  const runSync = async () => {
+    onStatus({ state: 'syncing' });
+    try {
+      if (firstSync) {
+        firstSync = false;
+        await markAllChanged();
+      }
+      const { rev, docs } = await transport.listChanges(state.cursor);
+      let complete = true;
+      const incoming = docs
+        .filter((doc) => doc.rev > (state.revs[doc.key] ?? 0))
+        .sort((a, b) => Number(b.key === REGISTRY_DOC) - Number(a.key === REGISTRY_DOC));
+      for (const { key } of incoming) {
+        const doc = await transport.getDoc(key);
+        if (doc && !(await applyRemote(doc))) complete = false;
+      }
+      if (complete) state.cursor = rev;
+      for (const key of [...state.pending]) await push(key);
+      saveState();
+      // Documents still queued were edited during the round and go with the next one
+      const skipped = skippedKeys.size > 0 ? { skipped: [...skippedKeys] } : {};
+      onStatus(state.pending.length === 0 ? { state: 'synced', at: Date.now(), ...skipped } : { state: 'syncing' });
+    } catch (error) {
+      saveState();
+      onStatus(
+        error instanceof SyncOfflineError
+          ? { state: 'offline', pending: state.pending.length }
+          : { state: 'error', message: error instanceof Error ? error.message : String(error), pending: state.pending.length }
+      );
+    }
+    skippedKeys.clear();
+    if (changedKeys.size > 0) {
+      onRemoteChange([...changedKeys]);
+      changedKeys.clear();
+    }
+  };
+
+  // One sync at a time; a request made meanwhile runs once the current one ends
+  let running: Promise<void> | null = null;
+  let rerun = false;
+  const sync = (): Promise<void> => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = runSync().finally(() => {
+      running = null;
+      if (rerun) {
+        rerun = false;
+        sync();
+      }
+    });
+    return running;
+  };
+
+  let pushTimer: ReturnType<typeof setTimeout> | undefined;
+  const markChanged = (key: string) => {
+    setPending(key, true);
+    clearTimeout(pushTimer);
+    pushTimer = setTimeout(sync, PUSH_DELAY);
+  };
+
+  const markAllChanged = async () => {
+    setPending(REGISTRY_DOC, true);
+    for (const { year, month } of await store.listMonths()) {
+      setPending(toMonthKey(year, month), true);
+    }
+  };
+
+  const start = () => {
+    const onOnline = () => sync();
+    window.addEventListener('online', onOnline);
+    const timer = setInterval(sync, SYNC_INTERVAL);
+    sync();
+    return () => {
+      window.removeEventListener('online', onOnline);
+      clearInterval(timer);
+      clearTimeout(pushTimer);
+    };
+  };
+
+  return { markChanged, markAllChanged, sync, start };
+};
@@ -0,0 +1,38 @@
+import { Habit, HabitTemplate } from '../types';
+import { isRecord } from '../utils/guards';
+import { getFields } from '../utils/registry';
+
+// Saved templates are shared by every profile on the device, so one can start another
+const TEMPLATES_KEY = 'habit-tracker-templates';
+
+const isTemplateHabit = (raw: unknown) => isRecord(raw) && typeof raw.name === 'string' && typeof raw.icon === 'string';
+
+const isTemplate = (raw: unknown): raw is HabitTemplate =>
+  isRecord(raw) &&
+  typeof raw.id === 'string' &&
+  typeof raw.name === 'string' &&
+  Array.isArray(raw.habits) &&
+  raw.habits.every(isTemplateHabit);
+
+export const loadCustomTemplates = (): HabitTemplate[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isTemplate).map((t) => ({ ...t, custom: true })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: HabitTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+// A template of the given habits' current definitions; their check data is left out
+export const createTemplate = (name: string, habits: Habit[]): HabitTemplate => ({
+  id: `custom-${Date.now()}`,
+  name: name.trim(),
+  icon: '⭐',
+  description: `${habits.length} habit${habits.length === 1 ? '' : 's'}`,
+  habits: habits.map(getFields),
+  custom: true,
+});
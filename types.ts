@@ -1,15 +1,153 @@
+export type HabitSchedule =
+  | { type: 'daily' }
+  | { type: 'weekly'; timesPerWeek: number }
+  | { type: 'weekdays'; days: number[] } // 0 = Sunday, same order as DAYS_OF_WEEK
+  | { type: 'monthly'; count: number };
+
+// 'boolean' habits are simple done / not done, 'quantity' habits log a number per day,
+// 'quit' habits log slips instead and count every other day as clean
+export type HabitKind = 'boolean' | 'quantity' | 'quit';
+
+// Why a day wasn't done. 'skipped' still counts as missed; 'excused' (sick, travel)
+// takes the day out of goals and stats. 'slipped' is a relapse of a quit habit.
+export type SkipReason = 'skipped' | 'excused' | 'slipped';
+
+// A habit on one day. 'unlogged' means nothing was entered yet.
+export type CheckState = 'done' | SkipReason | 'unlogged';
+
 export interface Habit {
   id: string;
   name: string;
   icon: string;
-  goal: number;
-  checks: boolean[]; // Array of N days
+  goal: number; // Completions expected this month, derived from the schedule
+  schedule?: HabitSchedule; // Missing on older data, treated as daily
+  kind?: HabitKind; // Missing on older data, treated as boolean
+  unit?: string; // Quantity habits only, e.g. "pages"
+  target?: number; // Quantity habits only, daily amount that counts as done
+  values?: number[]; // Quantity habits only, logged amount per day
+  checks: boolean[]; // Array of N days (for quantity habits: target reached; for quit habits: clean)
+  notes?: Record<number, string>; // Short note per day index, e.g. "leg day, 45 min", or what triggered a slip
+  skips?: Record<number, SkipReason>; // Days marked as not done on purpose, by day index
+  archivedAt?: number; // Only set in the month it was archived in, where it is hidden from the grid
+}
+
+// Parts of a habit's definition that can change over time
+export type HabitFields = Pick<Habit, 'name' | 'icon' | 'schedule' | 'kind' | 'unit' | 'target'>;
+
+// A set of habits to start from: a built-in pack or one saved by the user
+export interface HabitTemplate {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  habits: HabitFields[];
+  custom?: boolean; // Saved by the user; can be deleted
+}
+
+export interface HabitRevision extends HabitFields {
+  from: string; // Month key (YYYY-MM) this version applies from
+}
+
+export interface HabitDefinition {
+  id: string;
+  activeFrom: string; // Month key of the first month the habit is tracked
+  activeTo?: string; // Last tracked month, inclusive; open-ended when missing
+  gaps?: { from: string; to: string }[]; // Months between an archive and a restore, inclusive; not tracked
+  archivedAt?: number; // Set together with activeTo when archived
+  revisions: HabitRevision[]; // Oldest first; each applies until the next one starts
+}
+
+// Single source of habit definitions, in display order. Months only store check data.
+export interface HabitRegistry {
+  habits: HabitDefinition[];
+  metrics: MetricDefinition[]; // Daily metrics, in display order
+  lastUpdated: number;
+}
+
+// Whether a definition edit applies to the month being edited and later, or to every month
+export type EditScope = 'from-month' | 'everywhere';
+
+// A habit archived up to the month on screen
+export interface ArchivedHabit {
+  habit: Habit;
+  year: number; // Month it was archived in
+  month: number;
+}
+
+// A number recorded once a day besides the habits, e.g. mood or hours of sleep
+export interface MetricDefinition {
+  id: string; // 'mood' and 'motivation' for the built-in metrics
+  name: string;
+  min: number;
+  max: number;
+  step: number; // Recorded values are rounded to this
+  unit?: string;
+  color: string; // Chart series colour, as a hex code
 }
 
 export interface MentalState {
   day: number;
-  mood: number;
-  motivation: number;
+  values: Record<string, number>; // Metric id -> value; missing when not recorded
+  journal?: string; // Free-text journal entry for the day
+}
+
+// Day a calendar week starts on, using Date.getDay() numbering
+export type WeekStart = 0 | 1; // Sunday | Monday
+
+// Times are 'HH:MM'. A range whose end is before its start runs past midnight.
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+export interface AppSettings {
+  weekStart: WeekStart;
+  reminders: Record<string, string>; // Habit id -> daily reminder time ('HH:MM')
+  quietHours: QuietHours | null;
+  sync: SyncSettings | null; // null while sync is off
+  dayStart: string; // 'HH:MM' a new day starts at; checks before it go to the day before
+  yesterdayGraceHours: number | null; // Locks past days, except yesterday for this many hours into today
+}
+
+// Where a profile syncs to. Devices using the same server and space share their data.
+export interface SyncSettings {
+  url: string; // Base URL of the sync server
+  space: string;
+  token?: string; // Sent as a bearer token when the server requires one
+}
+
+export type SyncStatus =
+  | { state: 'off' }
+  | { state: 'syncing' }
+  | { state: 'synced'; at: number; skipped?: string[] } // Keys of unreadable server documents left out
+  | { state: 'offline'; pending: number } // Edits queued until the connection is back
+  | { state: 'error'; message: string; pending: number };
+
+// Salted SHA-256 of a profile's PIN, both hex encoded
+export interface PinLock {
+  salt: string;
+  hash: string;
+}
+
+// A person using the tracker on this device; each has their own habits, history and settings
+export interface Profile {
+  id: string;
+  name: string;
+  pin?: PinLock;
+  createdAt: number;
+}
+
+export interface ProfileList {
+  profiles: Profile[];
+  activeId: string;
+}
+
+// A notification handed to the service worker, which shows it once `at` has passed
+export interface PlannedReminder {
+  key: string; // Date and habit id; each key fires at most once
+  title: string;
+  body: string;
+  at: number;
 }
 
 export interface DayConfig {
@@ -17,8 +155,166 @@ export interface DayConfig {
   dayName: string; // Su, Mo, Tu, etc.
 }
 
+// A month with its habits resolved from the registry, as used throughout the app
 export interface MonthData {
+  schemaVersion?: number; // Missing on data saved before versioning
   habits: Habit[];
   mentalState: MentalState[];
   lastUpdated: number;
 }
+
+// Check data of one habit in one month
+export interface HabitEntry {
+  checks: boolean[];
+  values?: number[]; // Quantity habits only
+  notes?: Record<number, string>;
+  skips?: Record<number, SkipReason>;
+}
+
+// A month as persisted: check data keyed by habit id, definitions live in the registry
+export interface StoredMonth {
+  schemaVersion?: number;
+  entries: Record<string, HabitEntry>;
+  mentalState: MentalState[];
+  lastUpdated: number;
+}
+
+export interface QuarantinedMonth {
+  key: string; // Storage key the unreadable data was moved to
+  year: number;
+  month: number; // 0-indexed
+  reason: string;
+  quarantinedAt: number;
+}
+
+// A stored registry that failed validation, copied aside before an empty one replaced it
+export interface QuarantinedRegistry {
+  key: string; // Storage key the unreadable registry was copied to
+  reason: string;
+}
+
+export interface MonthRecord {
+  year: number;
+  month: number; // 0-indexed
+  data: MonthData;
+}
+
+export interface HabitStreak {
+  current: number;
+  longest: number;
+  lastBroken: Date | null; // First missed day after the most recent run
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+// What importing a backup will do to one month, computed before anything is written
+export interface MonthImportPlan {
+  year: number;
+  month: number; // 0-indexed
+  action: 'create' | 'replace' | 'merge' | 'unchanged';
+  habitsAdded: string[]; // Habit names
+  habitsUpdated: string[];
+  habitsLocalOnly: string[]; // Local habits not in the backup: kept by merge, dropped by replace
+  mentalDaysChanged: number;
+  result: MonthData;
+}
+
+export interface DailyStat {
+  day: number;
+  done: number;
+  notDone: number;
+  percent: number; // Completion of the habits counted that day, 0-100
+  scheduled: number;
+  excused: number; // Scheduled habits excused that day
+  counted: number; // Scheduled habits that count: not excused, and 0 on a day nothing was logged
+  credit: number; // Completed share summed over counted habits (partial for quantities)
+}
+
+export type ReviewPeriodKind = 'week' | 'month';
+
+export interface ReviewPeriod {
+  kind: ReviewPeriodKind;
+  start: Date;
+  end: Date; // Inclusive
+}
+
+export interface HabitReview {
+  id: string;
+  name: string;
+  icon: string;
+  done: number; // Credited completions, capped at the goal
+  goal: number;
+  percent: number;
+  previousPercent: number | null; // null if the habit wasn't tracked last period
+}
+
+export interface DayReview {
+  date: Date;
+  percent: number;
+  done: number;
+  counted: number; // Habits the percent is over; 0 on days nothing was logged
+}
+
+export interface PeriodReview {
+  period: ReviewPeriod;
+  habits: HabitReview[];
+  percent: number;
+  previousPercent: number | null; // null if there is no data for the previous period
+  bestDay: DayReview | null;
+  worstDay: DayReview | null;
+  metrics: MetricReview[];
+  habitsAdded: string[]; // Names of habits tracked this period but not the previous one
+  habitsRemoved: string[];
+}
+
+export interface MetricReview {
+  id: string;
+  name: string;
+  unit?: string;
+  average: number | null; // Over recorded days only
+  previousAverage: number | null;
+}
+
+export interface MetricComparison {
+  doneAvg: number | null; // Average rating on days the habit was fully done
+  skippedAvg: number | null; // ...and on scheduled days it was not done at all
+  doneCount: number; // Rated days behind each average
+  skippedCount: number;
+  correlation: number | null; // Pearson r between day credit and rating; null if undefined
+  pairs: number; // Rated scheduled days behind the correlation, partial days included
+}
+
+export interface HabitInsight {
+  id: string;
+  name: string;
+  icon: string;
+  sameDay: Record<string, MetricComparison>; // By metric id: habit on day d vs value on day d
+  nextDay: Record<string, MetricComparison>; // Habit on day d vs value on day d + 1
+}
+
+// Editable state of one month, as captured by the undo history
+export interface MonthSnapshot {
+  registry: HabitRegistry; // Habit edits change the shared registry; other months' histories are dropped then
+  habits: Habit[];
+  mentalState: MentalState[];
+}
+
+export interface HistoryEntry {
+  label: string; // e.g. "Delete Gym", shown in the undo toast and button titles
+  snapshot: MonthSnapshot; // State to return to
+  coalesceKey?: string; // Consecutive entries with the same key (typing in one cell) merge
+}
+
+export interface UndoHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// A journal entry or check note found by a notes search
+export interface NoteMatch {
+  year: number;
+  month: number;
+  dayIndex: number;
+  habit?: Pick<Habit, 'id' | 'name' | 'icon'>; // Missing for journal entries
+  text: string;
+}
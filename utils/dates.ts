@@ -0,0 +1,99 @@
+import { WeekStart } from '../types';
+
+// Sunday, matching the day order in DAYS_OF_WEEK
+export const DEFAULT_WEEK_START: WeekStart = 0;
+
+export const getDaysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Splits a month into calendar weeks clipped to the month boundaries.
+ * Each entry is a list of 0-indexed days. `weekStart` uses the same numbering as
+ * `Date.getDay()` (0 = Sunday).
+ */
+export const getCalendarWeekDays = (year: number, month: number, weekStart: WeekStart = DEFAULT_WEEK_START): number[][] => {
+  const daysInMonth = getDaysInMonth(year, month);
+  const weeks: number[][] = [];
+  let current: number[] = [];
+
+  for (let i = 0; i < daysInMonth; i++) {
+    const weekday = new Date(year, month, i + 1).getDay();
+    if (weekday === weekStart && current.length > 0) {
+      weeks.push(current);
+      current = [];
+    }
+    current.push(i);
+  }
+  if (current.length > 0) weeks.push(current);
+  return weeks;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ISO calendar date (YYYY-MM-DD) for a 0-indexed month and 1-indexed day
+export const toDateKey = (year: number, month: number, day: number) => `${year}-${pad(month + 1)}-${pad(day)}`;
+
+// Month key (YYYY-MM) for a 0-indexed month; sorts chronologically as a string
+export const toMonthKey = (year: number, month: number) => `${year}-${pad(month + 1)}`;
+
+/**
+ * The date that counts as today when days start `dayStart` minutes after midnight, so
+ * a check at 1 a.m. with a 04:00 day start still goes to the day before.
+ */
+export const getLogicalToday = (now: Date, dayStart: number) => {
+  const shifted = new Date(now.getTime() - dayStart * 60 * 1000);
+  return new Date(shifted.getFullYear(), shifted.getMonth(), shifted.getDate());
+};
+
+// Days of a month up to and including today: none for future months, all for past ones
+export const getElapsedDays = (year: number, month: number, today: Date) => {
+  if (today < new Date(year, month, 1)) return 0;
+  if (today.getFullYear() === year && today.getMonth() === month) return today.getDate();
+  return getDaysInMonth(year, month);
+};
+
+// Why a day can't be edited; null when it can
+export type DayLock = 'future' | 'past';
+
+/**
+ * Future days are always locked. With a grace window, past days are locked as well,
+ * except yesterday during the first `graceHours` hours of today.
+ */
+export const getDayLock = (date: Date, now: Date, dayStart: number, graceHours: number | null): DayLock | null => {
+  const today = getLogicalToday(now, dayStart);
+  if (date > today) return 'future';
+  if (graceHours === null || date >= today) return null;
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 0, dayStart);
+  const inGrace = date.getTime() === yesterday.getTime() && now.getTime() - todayStart.getTime() < graceHours * 60 * 60 * 1000;
+  return inGrace ? null : 'past';
+};
+
+// Inverse of toMonthKey, with a 0-indexed month
+export const parseMonthKey = (key: string) => {
+  const [year, month] = key.split('-').map(Number);
+  return { year, month: month - 1 };
+};
+
+// Inverse of toDateKey, as a local-time Date
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * ISO 8601 week number (weeks start on Monday, week 1 contains the first Thursday).
+ */
+export const getIsoWeek = (date: Date) => {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  d.setDate(d.getDate() + 3 - ((d.getDay() + 6) % 7)); // Thursday of this week
+  const firstThursday = new Date(d.getFullYear(), 0, 4);
+  firstThursday.setDate(firstThursday.getDate() + 3 - ((firstThursday.getDay() + 6) % 7));
+  return 1 + Math.round((d.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000));
+};
+
+/**
+ * Week number for a date under the given week start. Monday-start weeks are ISO weeks;
+ * a Sunday-start week takes the ISO number of the Monday that follows its Sunday.
+ */
+export const getWeekNumber = (date: Date, weekStart: WeekStart) =>
+  weekStart === 1 ? getIsoWeek(date) : getIsoWeek(new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1));
@@ -0,0 +1,62 @@
+// Keyboard cursor and range selection for the month grid. Rows are the visible habits
+// in order, followed by the mental state rows.
+
+export interface GridCell {
+  row: number;
+  day: number; // 0-indexed
+}
+
+export interface CellRange {
+  rows: [number, number]; // Inclusive, ascending
+  days: [number, number];
+}
+
+const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+// Cell after an arrow / Home / End key, or null for other keys
+export const moveCell = (cell: GridCell, key: string, rowCount: number, dayCount: number): GridCell | null => {
+  const maxRow = rowCount - 1;
+  const maxDay = dayCount - 1;
+  switch (key) {
+    case 'ArrowUp':
+      return { ...cell, row: clamp(cell.row - 1, maxRow) };
+    case 'ArrowDown':
+      return { ...cell, row: clamp(cell.row + 1, maxRow) };
+    case 'ArrowLeft':
+      return { ...cell, day: clamp(cell.day - 1, maxDay) };
+    case 'ArrowRight':
+      return { ...cell, day: clamp(cell.day + 1, maxDay) };
+    case 'Home':
+      return { ...cell, day: 0 };
+    case 'End':
+      return { ...cell, day: maxDay };
+    default:
+      return null;
+  }
+};
+
+export const clampCell = (cell: GridCell, rowCount: number, dayCount: number): GridCell => ({
+  row: clamp(cell.row, rowCount - 1),
+  day: clamp(cell.day, dayCount - 1),
+});
+
+export const getCellRange = (anchor: GridCell, focus: GridCell): CellRange => ({
+  rows: [Math.min(anchor.row, focus.row), Math.max(anchor.row, focus.row)],
+  days: [Math.min(anchor.day, focus.day), Math.max(anchor.day, focus.day)],
+});
+
+export const isInRange = (range: CellRange | null, row: number, day: number) =>
+  !!range && row >= range.rows[0] && row <= range.rows[1] && day >= range.days[0] && day <= range.days[1];
+
+export const countCells = (range: CellRange) =>
+  (range.rows[1] - range.rows[0] + 1) * (range.days[1] - range.days[0] + 1);
+
+/**
+ * Text typed into a metric cell, digit by digit. Digits add to what was already typed
+ * into the cell until the number would pass the metric's maximum, then start over: on
+ * a 1–10 scale, 1 then 0 makes 10 while 5 then 3 makes 3.
+ */
+export const typeMetricDigit = (typed: string, digit: string, max: number) => {
+  const next = typed + digit;
+  return Number(next) <= max ? next : digit;
+};
@@ -0,0 +1,6 @@
+/**
+ * Narrows data read back from storage, backups or the network, which stays unknown
+ * until its fields have been checked.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
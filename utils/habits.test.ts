@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Habit } from '../types';
+import { getDayCredit, getNextCheckState, normalizeHabit, setCheckState, setDayDone, setDayValue } from './habits';
+
+const pages = (fields: Partial<Habit> = {}): Habit => ({
+  id: 'read',
+  name: 'Read',
+  icon: '📖',
+  goal: 3,
+  kind: 'quantity',
+  unit: 'pages',
+  target: 20,
+  values: [0, 0, 0],
+  checks: [false, false, false],
+  ...fields,
+});
+
+describe('getDayCredit', () => {
+  it('gives quantity habits partial credit up to their target', () => {
+    const habit = pages({ values: [5, 20, 45] });
+    expect([0, 1, 2].map((i) => getDayCredit(habit, i))).toEqual([0.25, 1, 1]);
+  });
+
+  it('counts any amount as done when the target is zero', () => {
+    const habit = pages({ target: 0, values: [0, 1, 0] });
+    expect([0, 1].map((i) => getDayCredit(habit, i))).toEqual([0, 1]);
+  });
+
+  it('gives boolean habits all or nothing', () => {
+    const habit = pages({ kind: 'boolean', values: undefined, checks: [true, false, false] });
+    expect([0, 1].map((i) => getDayCredit(habit, i))).toEqual([1, 0]);
+  });
+});
+
+describe('setDayValue', () => {
+  it('marks the day done once the amount reaches the target', () => {
+    expect(setDayValue(pages(), 0, 19).checks[0]).toBe(false);
+    expect(setDayValue(pages(), 0, 20).checks[0]).toBe(true);
+  });
+
+  it('replaces a skip when an amount is logged, but not when it is cleared', () => {
+    const skipped = pages({ skips: { 1: 'skipped' } });
+    expect(setDayValue(skipped, 1, 5).skips).toBeUndefined();
+    expect(setDayValue(skipped, 1, 0).skips).toEqual({ 1: 'skipped' });
+  });
+});
+
+describe('setDayDone', () => {
+  it('tops a quantity habit up to its target without lowering a larger amount', () => {
+    expect(setDayDone(pages({ values: [5, 0, 0] }), 0, true).values[0]).toBe(20);
+    expect(setDayDone(pages({ values: [30, 0, 0] }), 0, true).values[0]).toBe(30);
+    expect(setDayDone(pages({ values: [30, 0, 0], checks: [true, false, false] }), 0, false)).toMatchObject({
+      values: [0, 0, 0],
+      checks: [false, false, false],
+    });
+  });
+});
+
+describe('quit habits', () => {
+  const smoking: Habit = { id: 'smoke', name: 'No smoking', icon: '🚭', goal: 0, kind: 'quit', checks: [] };
+
+  it('are daily and clean on every day without a slip', () => {
+    const habit = normalizeHabit(
+      { ...smoking, schedule: { type: 'weekly', timesPerWeek: 2 }, skips: { 2: 'skipped', 40: 'slipped' } },
+      2026,
+      1,
+      28
+    );
+    expect(habit.goal).toBe(28);
+    expect(habit.skips).toEqual({ 2: 'slipped' });
+    expect(habit.checks.flatMap((clean, i) => (clean ? [] : [i]))).toEqual([2]);
+  });
+
+  it('toggle between clean and slipped', () => {
+    const habit = normalizeHabit(smoking, 2026, 1, 28);
+    expect(getNextCheckState(habit, 'done')).toBe('slipped');
+    expect(getNextCheckState(habit, 'slipped')).toBe('done');
+
+    const slipped = setCheckState(habit, 4, 'skipped');
+    expect(slipped.skips).toEqual({ 4: 'slipped' });
+    expect(slipped.checks[4]).toBe(false);
+    expect(setCheckState(slipped, 4, 'done').checks[4]).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { CheckState, Habit, SkipReason, WeekStart } from '../types';
+import { DEFAULT_WEEK_START } from './dates';
+import { getGoalForDays, getSchedule } from './schedule';
+
+export const DEFAULT_QUANTITY_TARGET = 1;
+
+export const isQuantityHabit = (habit: Habit) => habit.kind === 'quantity';
+
+export const isQuitHabit = (habit: Habit) => habit.kind === 'quit';
+
+export const isArchived = (habit: Habit) => habit.archivedAt !== undefined;
+
+const getTarget = (habit: Habit) => Math.max(habit.target ?? DEFAULT_QUANTITY_TARGET, Number.MIN_VALUE);
+
+/**
+ * Share of a day's completion, from 0 to 1. Quantity habits earn partial credit
+ * proportional to their daily target.
+ */
+export const getDayCredit = (habit: Habit, dayIndex: number): number => {
+  if (!isQuantityHabit(habit)) return habit.checks[dayIndex] ? 1 : 0;
+  return Math.min(1, (habit.values?.[dayIndex] ?? 0) / getTarget(habit));
+};
+
+export const getTotalValue = (habit: Habit) => (habit.values ?? []).reduce((acc, v) => acc + v, 0);
+
+export const getCheckState = (habit: Habit, dayIndex: number): CheckState =>
+  habit.checks[dayIndex] ? 'done' : habit.skips?.[dayIndex] ?? 'unlogged';
+
+export const isExcused = (habit: Habit, dayIndex: number) => habit.skips?.[dayIndex] === 'excused';
+
+// Anything entered for the day: a check, a skip or a partial amount. Quit habits are
+// clean by default, so only a slip, an excuse or a note counts as entered.
+export const isDayLogged = (habit: Habit, dayIndex: number) =>
+  isQuitHabit(habit)
+    ? !!habit.skips?.[dayIndex] || !!habit.notes?.[dayIndex]
+    : getCheckState(habit, dayIndex) !== 'unlogged' || (habit.values?.[dayIndex] ?? 0) > 0;
+
+const withoutSkip = (habit: Habit, dayIndex: number): Habit => {
+  if (!habit.skips?.[dayIndex]) return habit;
+  const { [dayIndex]: _removed, ...skips } = habit.skips;
+  if (Object.keys(skips).length > 0) return { ...habit, skips };
+  const { skips: _skips, ...rest } = habit;
+  return rest;
+};
+
+// Derive the done flags of a quantity habit from its values, and the clean days of a quit habit from its slips
+const syncChecks = (habit: Habit): Habit => {
+  if (isQuitHabit(habit)) return { ...habit, checks: habit.checks.map((_, i) => !habit.skips?.[i]) };
+  if (!isQuantityHabit(habit)) return habit;
+  const target = getTarget(habit);
+  return { ...habit, checks: (habit.values ?? []).map((v) => v >= target) };
+};
+
+// Quit habits slip where other habits are skipped, so a skip carries over when the kind changes
+const toKindReason = (habit: Habit, reason: SkipReason): SkipReason =>
+  reason === 'excused' ? reason : isQuitHabit(habit) ? 'slipped' : 'skipped';
+
+/**
+ * Brings a stored habit in line with the given month: array lengths match the number
+ * of days, the goal follows the schedule and quantity values are present. Quit habits
+ * are clean on every day without a slip. Data saved before a field existed is upgraded
+ * here, so older months load unchanged.
+ */
+export const normalizeHabit = (
+  habit: Habit,
+  year: number,
+  month: number,
+  daysInMonth: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): Habit => {
+  const checks = Array.from({ length: daysInMonth }, (_, i) => habit.checks?.[i] || false);
+  const skips = Object.entries(habit.skips ?? {})
+    .filter(([day]) => Number(day) < daysInMonth && (isQuitHabit(habit) || !checks[Number(day)]))
+    .map(([day, reason]) => [day, toKindReason(habit, reason)]);
+  const countedDays = Array.from({ length: daysInMonth }, (_, i) => i).filter((i) => habit.skips?.[i] !== 'excused');
+  const { skips: _skips, ...rest } = habit;
+  const normalized: Habit = {
+    ...rest,
+    goal: getGoalForDays(getSchedule(habit), year, month, countedDays, weekStart), // Excused days don't count
+    checks,
+    ...(skips.length > 0 ? { skips: Object.fromEntries(skips) } : {}),
+  };
+  if (!isQuantityHabit(habit)) return syncChecks(normalized);
+
+  const target = habit.target ?? DEFAULT_QUANTITY_TARGET;
+  return syncChecks({
+    ...normalized,
+    target,
+    unit: habit.unit ?? '',
+    values: Array.from({ length: daysInMonth }, (_, i) => habit.values?.[i] ?? (checks[i] ? target : 0)),
+  });
+};
+
+// Logging an amount replaces a skip
+export const setDayValue = (habit: Habit, dayIndex: number, value: number): Habit => {
+  const values = [...(habit.values ?? Array(habit.checks.length).fill(0))];
+  values[dayIndex] = value;
+  return syncChecks({ ...(value > 0 ? withoutSkip(habit, dayIndex) : habit), values });
+};
+
+/**
+ * Marks a day done, or clears it back to not logged. Quantity habits are topped up to
+ * their target, or cleared. Quit habits are clean either way, since that's the default.
+ */
+export const setDayDone = (habit: Habit, dayIndex: number, done: boolean): Habit => {
+  if (isQuitHabit(habit)) return syncChecks(withoutSkip(habit, dayIndex));
+  if (!isQuantityHabit(habit)) {
+    const checks = [...habit.checks];
+    checks[dayIndex] = done;
+    return { ...withoutSkip(habit, dayIndex), checks };
+  }
+  const value = habit.values?.[dayIndex] ?? 0;
+  const target = habit.target ?? DEFAULT_QUANTITY_TARGET;
+  return setDayValue(withoutSkip(habit, dayIndex), dayIndex, done ? Math.max(value, target) : 0);
+};
+
+/**
+ * Marks a day skipped or excused, clearing a check or logged amount. The goal is not
+ * touched; run the habit through normalizeHabit to take excused days out of it.
+ */
+export const setDaySkip = (habit: Habit, dayIndex: number, reason: SkipReason): Habit => {
+  const cleared = setDayDone(habit, dayIndex, false);
+  return syncChecks({ ...cleared, skips: { ...cleared.skips, [dayIndex]: toKindReason(habit, reason) } });
+};
+
+/**
+ * Click order of a grid cell: not logged → done → skipped → not logged. Excused clears.
+ * Quit habit cells toggle between clean and slipped.
+ */
+export const getNextCheckState = (habit: Habit, state: CheckState): CheckState => {
+  if (isQuitHabit(habit)) return state === 'done' ? 'slipped' : 'done';
+  return state === 'unlogged' ? 'done' : state === 'done' ? 'skipped' : 'unlogged';
+};
+
+export const setCheckState = (habit: Habit, dayIndex: number, state: CheckState): Habit =>
+  state === 'done' || state === 'unlogged'
+    ? setDayDone(habit, dayIndex, state === 'done')
+    : setDaySkip(habit, dayIndex, state);
+
+export const formatQuantity = (value: number) => (Number.isInteger(value) ? `${value}` : value.toFixed(1));
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { MonthSnapshot } from '../types';
+import { EMPTY_HISTORY, recordChange, redoChange, undoChange } from './history';
+import { EMPTY_REGISTRY } from './registry';
+
+// Snapshots told apart by the mood logged on day 1
+const snapshot = (mood: number): MonthSnapshot => ({
+  registry: EMPTY_REGISTRY,
+  habits: [],
+  mentalState: [{ day: 1, values: { mood } }],
+});
+
+describe('recordChange', () => {
+  it('merges consecutive changes with the same coalesce key into one step', () => {
+    let history = recordChange(EMPTY_HISTORY, 'Edit mood', snapshot(1), 'mood-1');
+    history = recordChange(history, 'Edit mood', snapshot(2), 'mood-1');
+    history = recordChange(history, 'Edit mood', snapshot(3), 'mood-2');
+    expect(history.past.map((e) => e.snapshot)).toEqual([snapshot(1), snapshot(3)]);
+  });
+
+  it('clears the redo stack, without coalescing into the step before it', () => {
+    const history = recordChange(recordChange(EMPTY_HISTORY, 'Edit mood', snapshot(1), 'mood-1'), 'Edit motivation', snapshot(2));
+    const undone = undoChange(history, snapshot(3))!;
+    expect(undone.history.future).toHaveLength(1);
+
+    const next = recordChange(undone.history, 'Edit mood', snapshot(2), 'mood-1');
+    expect(next.past.map((e) => e.snapshot)).toEqual([snapshot(1), snapshot(2)]);
+    expect(next.future).toEqual([]);
+  });
+
+  it('keeps only the most recent 100 steps', () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 105; i++) history = recordChange(history, `Step ${i}`, snapshot(i));
+    expect(history.past).toHaveLength(100);
+    expect(history.past[0].label).toBe('Step 5');
+  });
+});
+
+describe('undoChange and redoChange', () => {
+  it('step back and forth through the recorded snapshots', () => {
+    const history = recordChange(recordChange(EMPTY_HISTORY, 'First', snapshot(1)), 'Second', snapshot(2));
+
+    const undone = undoChange(history, snapshot(3))!;
+    expect(undone).toMatchObject({ snapshot: snapshot(2), label: 'Second' });
+
+    const redone = redoChange(undone.history, snapshot(2))!;
+    expect(redone).toMatchObject({ snapshot: snapshot(3), label: 'Second' });
+    expect(redone.history).toEqual({ past: [history.past[0], { label: 'Second', snapshot: snapshot(2) }], future: [] });
+  });
+
+  it('return null with nothing to undo or redo', () => {
+    expect(undoChange(EMPTY_HISTORY, snapshot(1))).toBeNull();
+    expect(redoChange(EMPTY_HISTORY, snapshot(1))).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { HistoryEntry, MonthSnapshot, UndoHistory } from '../types';
+
+const HISTORY_LIMIT = 100;
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+/**
+ * Records a change made on top of `before`. A new change clears the redo stack.
+ * Entries sharing a coalesce key with the previous one keep the older snapshot,
+ * so typing "10" into a cell undoes in one step.
+ */
+export const recordChange = (
+  history: UndoHistory,
+  label: string,
+  before: MonthSnapshot,
+  coalesceKey?: string
+): UndoHistory => {
+  const last = history.past[history.past.length - 1];
+  if (coalesceKey && last?.coalesceKey === coalesceKey && history.future.length === 0) {
+    return history;
+  }
+  const entry: HistoryEntry = { label, snapshot: before, coalesceKey };
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+/** Steps back once; returns null when there is nothing to undo. */
+export const undoChange = (
+  history: UndoHistory,
+  current: MonthSnapshot
+): { history: UndoHistory; snapshot: MonthSnapshot; label: string } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, snapshot: current }],
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  };
+};
+
+/** Re-applies the last undone change; returns null when there is nothing to redo. */
+export const redoChange = (
+  history: UndoHistory,
+  current: MonthSnapshot
+): { history: UndoHistory; snapshot: MonthSnapshot; label: string } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    history: {
+      past: [...history.past, { label: entry.label, snapshot: current }],
+      future: history.future.slice(0, -1),
+    },
+    snapshot: entry.snapshot,
+    label: entry.label,
+  };
+};
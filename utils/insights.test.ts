@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_METRICS } from '../constants';
+import { Habit, MentalState, MonthRecord } from '../types';
+import { computeInsights, pearson } from './insights';
+
+const FEB = 1;
+const MARCH = 2;
+const DAYS = 31; // March 2026
+const AFTER_MARCH = new Date(2026, 3, 1);
+
+const habit = (id: string, fields: Partial<Habit> = {}): Habit => ({
+  id,
+  name: id,
+  icon: '•',
+  goal: DAYS,
+  checks: Array(DAYS).fill(false),
+  ...fields,
+});
+
+const dailyMood = (days: number): MentalState[] =>
+  Array.from({ length: days }, (_, i) => ({ day: i + 1, values: { mood: (i % 5) + 1 } }));
+
+const record = (month: number, habits: Habit[], mentalState = dailyMood(DAYS)): MonthRecord => ({
+  year: 2026,
+  month,
+  data: { habits, mentalState, lastUpdated: 1 },
+});
+
+const insightFor = (records: MonthRecord[], id: string, today = AFTER_MARCH) =>
+  computeInsights(records, DEFAULT_METRICS, 1, today).find((i) => i.id === id);
+
+describe('pearson', () => {
+  it('measures how closely two series move together', () => {
+    expect(pearson([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(pearson([1, 0, 1, 0], [3, 5, 3, 5])).toBeCloseTo(-1);
+  });
+
+  it('is null when either series never varies or there is no data', () => {
+    expect(pearson([1, 1, 1], [2, 4, 6])).toBeNull();
+    expect(pearson([], [])).toBeNull();
+  });
+});
+
+describe('computeInsights', () => {
+  it('leaves out excused days and today, which is still open', () => {
+    const read = habit('read', { checks: Array.from({ length: DAYS }, (_, i) => i <= 10), skips: { 3: 'excused' } });
+    const { sameDay, nextDay } = insightFor([record(MARCH, [read])], 'read', new Date(2026, MARCH, 11));
+    expect(sameDay.mood).toMatchObject({ doneCount: 9, pairs: 9 });
+    expect(nextDay.mood).toMatchObject({ doneCount: 8, pairs: 8 });
+  });
+
+  it('pairs the last day of a month with the first rating of the next', () => {
+    const february = habit('read', {
+      checks: Array.from({ length: 28 }, (_, i) => i === 27),
+      skips: Object.fromEntries(Array.from({ length: 27 }, (_, i) => [i, 'skipped' as const])),
+    });
+    const records = [record(FEB, [february], []), record(MARCH, [habit('read')], [{ day: 1, values: { mood: 9 } }])];
+    expect(insightFor(records, 'read', new Date(2026, MARCH, 2)).nextDay.mood).toMatchObject({ doneAvg: 9, doneCount: 1, pairs: 1 });
+  });
+
+  it('leaves days nothing was logged on out of the skipped group', () => {
+    const read = habit('read', {
+      checks: Array.from({ length: DAYS }, (_, i) => i < 10),
+      skips: { 10: 'skipped', 11: 'skipped', 12: 'skipped', 13: 'skipped', 14: 'skipped' },
+    });
+    const mood = insightFor([record(MARCH, [read, habit('run')])], 'read').sameDay.mood;
+    expect(mood).toMatchObject({ doneCount: 10, skippedCount: 5, pairs: 15 });
+  });
+
+  it('counts a habit left blank on a logged day as missed, like the monthly stats', () => {
+    const read = habit('read', { checks: Array.from({ length: DAYS }, (_, i) => i < 10) });
+    const run = habit('run', { checks: Array.from({ length: DAYS }, (_, i) => i === 20) });
+    const mood = insightFor([record(MARCH, [read, run])], 'read').sameDay.mood;
+    expect(mood).toMatchObject({ doneCount: 10, skippedCount: 1, pairs: 11 });
+  });
+});
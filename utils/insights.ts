@@ -0,0 +1,129 @@
+import { HabitInsight, MetricComparison, MetricDefinition, MonthRecord, WeekStart } from '../types';
+import { getDaysInMonth, toDateKey } from './dates';
+import { getDayCredit, isArchived, isDayLogged, isExcused } from './habits';
+import { getScheduledDays } from './schedule';
+
+// Below these sizes the numbers are shown with a warning rather than trusted
+export const MIN_GROUP_SAMPLE = 5;
+export const MIN_CORRELATION_SAMPLE = 10;
+
+interface Observation {
+  credit: number; // 0-1, partial for quantity habits
+  rating: number;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : null;
+
+// Pearson correlation; null when either side never varies
+export const pearson = (xs: number[], ys: number[]): number | null => {
+  const meanX = average(xs);
+  const meanY = average(ys);
+  if (meanX === null || meanY === null) return null;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  xs.forEach((x, i) => {
+    cov += (x - meanX) * (ys[i] - meanY);
+    varX += (x - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  });
+  if (varX === 0 || varY === 0) return null;
+  return Math.max(-1, Math.min(1, cov / Math.sqrt(varX * varY))); // Clamp rounding noise
+};
+
+const compare = (observations: Observation[]): MetricComparison => {
+  const done = observations.filter((o) => o.credit >= 1).map((o) => o.rating);
+  const skipped = observations.filter((o) => o.credit === 0).map((o) => o.rating);
+  return {
+    doneAvg: average(done),
+    skippedAvg: average(skipped),
+    doneCount: done.length,
+    skippedCount: skipped.length,
+    correlation: pearson(observations.map((o) => o.credit), observations.map((o) => o.rating)),
+    pairs: observations.length,
+  };
+};
+
+interface HabitObservations {
+  insight: Pick<HabitInsight, 'id' | 'name' | 'icon'>;
+  sameDay: Record<string, Observation[]>;
+  nextDay: Record<string, Observation[]>;
+}
+
+const emptyObservations = (metrics: MetricDefinition[]): Record<string, Observation[]> =>
+  Object.fromEntries(metrics.map((m) => [m.id, []]));
+
+const compareAll = (observations: Record<string, Observation[]>): Record<string, MetricComparison> =>
+  Object.fromEntries(Object.entries(observations).map(([id, o]) => [id, compare(o)]));
+
+/**
+ * Relates each habit to each daily metric, on the same day and on the day after.
+ * Only scheduled days before `today` count (today is still open); excused days, days
+ * nothing was logged on and days without a value for the metric are left out, the
+ * same days the monthly stats leave out.
+ */
+export const computeInsights = (
+  records: MonthRecord[],
+  metrics: MetricDefinition[],
+  weekStart: WeekStart,
+  today: Date = new Date()
+): HabitInsight[] => {
+  const cutoff = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+  const ratings = new Map<string, Record<string, number>>();
+  records.forEach(({ year, month, data }) => {
+    data.mentalState.forEach((m) => ratings.set(toDateKey(year, month, m.day), m.values));
+  });
+
+  const habits = new Map<string, HabitObservations>();
+
+  records.forEach(({ year, month, data }) => {
+    const visible = data.habits.filter((h) => !isArchived(h));
+    const logged = Array.from({ length: getDaysInMonth(year, month) }, (_, i) => visible.some((h) => isDayLogged(h, i)));
+
+    data.habits.forEach((h) => {
+      const entry = habits.get(h.id) ?? { insight: h, sameDay: emptyObservations(metrics), nextDay: emptyObservations(metrics) };
+      entry.insight = { id: h.id, name: h.name, icon: h.icon }; // Latest name and icon win
+      const scheduled = getScheduledDays(h, year, month, weekStart);
+
+      for (let i = 0; i < getDaysInMonth(year, month); i++) {
+        if (!scheduled[i] || !logged[i] || isExcused(h, i) || new Date(year, month, i + 1) >= cutoff) continue;
+        const credit = getDayCredit(h, i);
+        const next = new Date(year, month, i + 2);
+        const sameRatings = ratings.get(toDateKey(year, month, i + 1));
+        const nextRatings = next < cutoff ? ratings.get(toDateKey(next.getFullYear(), next.getMonth(), next.getDate())) : undefined;
+
+        metrics.forEach(({ id }) => {
+          if (sameRatings?.[id] !== undefined) entry.sameDay[id].push({ credit, rating: sameRatings[id] });
+          if (nextRatings?.[id] !== undefined) entry.nextDay[id].push({ credit, rating: nextRatings[id] });
+        });
+      }
+      habits.set(h.id, entry);
+    });
+  });
+
+  return [...habits.values()].map(({ insight, sameDay, nextDay }) => ({
+    ...insight,
+    sameDay: compareAll(sameDay),
+    nextDay: compareAll(nextDay),
+  }));
+};
+
+/** Why a comparison shouldn't be trusted yet, or null if the sample is big enough. */
+export const getSampleWarning = (comparison: MetricComparison): string | null => {
+  if (comparison.doneCount < MIN_GROUP_SAMPLE || comparison.skippedCount < MIN_GROUP_SAMPLE) {
+    return `Needs at least ${MIN_GROUP_SAMPLE} rated days both done and skipped (has ${comparison.doneCount} / ${comparison.skippedCount})`;
+  }
+  if (comparison.pairs < MIN_CORRELATION_SAMPLE) {
+    return `Needs at least ${MIN_CORRELATION_SAMPLE} rated days (has ${comparison.pairs})`;
+  }
+  return null;
+};
+
+export const describeCorrelation = (r: number | null) => {
+  if (r === null) return 'no variation';
+  const strength = Math.abs(r);
+  const label = strength < 0.1 ? 'none' : strength < 0.3 ? 'weak' : strength < 0.5 ? 'moderate' : 'strong';
+  return label === 'none' ? label : `${label} ${r > 0 ? 'positive' : 'negative'}`;
+};
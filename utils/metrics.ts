@@ -0,0 +1,60 @@
+import { MentalState, MetricDefinition } from '../types';
+
+export const getMetricValue = (mental: MentalState | undefined, metricId: string): number | undefined =>
+  mental?.values[metricId];
+
+/**
+ * Reads a typed value for a metric: blank clears it (null), anything else is rounded to
+ * the metric's step and capped at its maximum. Returns undefined for unreadable input
+ * and for values below the minimum, so a 0 is never stored on a 1–10 scale.
+ */
+export const parseMetricInput = (metric: MetricDefinition, text: string): number | null | undefined => {
+  if (text.trim() === '') return null;
+  const parsed = parseFloat(text);
+  if (Number.isNaN(parsed)) return undefined;
+  const stepped = Math.round(parsed / metric.step) * metric.step;
+  if (stepped < metric.min) return undefined;
+  return Number(Math.min(metric.max, stepped).toFixed(4)); // Drop float noise from the step rounding
+};
+
+// Sets (or with null, clears) one metric on one day
+export const setMetricValue = (
+  mentalState: MentalState[],
+  dayIndex: number,
+  metricId: string,
+  value: number | null
+): MentalState[] =>
+  mentalState.map((m, i) => {
+    if (i !== dayIndex) return m;
+    const { [metricId]: _previous, ...rest } = m.values;
+    return { ...m, values: value === null ? rest : { ...rest, [metricId]: value } };
+  });
+
+export const formatMetricValue = (metric: MetricDefinition, value: number | undefined) =>
+  value === undefined ? '–' : `${value}${metric.unit ? ` ${metric.unit}` : ''}`;
+
+// Translucent area fill for a metric's chart series
+export const getMetricFill = (metric: MetricDefinition) => `${metric.color}33`;
+
+/**
+ * Metrics grouped by range and unit, so each chart only mixes series on one scale
+ * (mood next to motivation, but not next to body weight).
+ */
+export const groupMetricsByScale = (metrics: MetricDefinition[]): MetricDefinition[][] => {
+  const groups = new Map<string, MetricDefinition[]>();
+  metrics.forEach((metric) => {
+    const key = `${metric.min}|${metric.max}|${metric.unit ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), metric]);
+  });
+  return [...groups.values()];
+};
+
+// Chart points for the given metrics; days without a value are left out of that series
+export const getMetricChartData = (mentalState: MentalState[], metrics: MetricDefinition[]) =>
+  mentalState.map((m) => {
+    const point: Record<string, number> = { day: m.day };
+    metrics.forEach((metric) => {
+      if (m.values[metric.id] !== undefined) point[metric.id] = m.values[metric.id];
+    });
+    return point;
+  });
@@ -0,0 +1,50 @@
+import { Habit, MentalState, MonthRecord, NoteMatch } from '../types';
+
+// Check notes are meant to be short; the journal is free length
+export const NOTE_MAX_LENGTH = 140;
+
+// Sets or (when blank) removes a habit's note for one day
+export const setNote = (habit: Habit, dayIndex: number, text: string): Habit => {
+  const { [dayIndex]: _previous, ...rest } = habit.notes ?? {};
+  const notes: Record<number, string> = text.trim() ? { ...rest, [dayIndex]: text.slice(0, NOTE_MAX_LENGTH) } : rest;
+  if (Object.keys(notes).length > 0) return { ...habit, notes };
+  const { notes: _notes, ...withoutNotes } = habit;
+  return withoutNotes;
+};
+
+export const setJournal = (mentalState: MentalState[], dayIndex: number, text: string): MentalState[] =>
+  mentalState.map((m, i) => {
+    if (i !== dayIndex) return m;
+    const { journal: _journal, ...rest } = m;
+    return text.trim() ? { ...rest, journal: text } : rest;
+  });
+
+export const hasNote = (habit: Habit, dayIndex: number) => !!habit.notes?.[dayIndex];
+
+/**
+ * Journal entries and check notes containing the query (case-insensitive), newest day
+ * first; on the same day the journal comes before the habits, in grid order.
+ */
+export const findNotes = (records: MonthRecord[], query: string): NoteMatch[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const matches: NoteMatch[] = [];
+
+  records.forEach(({ year, month, data }) => {
+    data.mentalState.forEach((m) => {
+      if (m.journal?.toLowerCase().includes(needle)) {
+        matches.push({ year, month, dayIndex: m.day - 1, text: m.journal });
+      }
+    });
+    data.habits.forEach((h) => {
+      Object.entries(h.notes ?? {}).forEach(([day, text]) => {
+        if (text.toLowerCase().includes(needle)) {
+          matches.push({ year, month, dayIndex: Number(day), habit: { id: h.id, name: h.name, icon: h.icon }, text });
+        }
+      });
+    });
+  });
+
+  const order = (m: NoteMatch) => (m.year * 12 + m.month) * 31 + m.dayIndex;
+  return matches.sort((a, b) => order(b) - order(a) || Number(!!a.habit) - Number(!!b.habit));
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_REGISTRY, addDefinition, archiveDefinition, isActiveIn, restoreDefinition } from './registry';
+
+describe('restoreDefinition', () => {
+  const added = addDefinition(EMPTY_REGISTRY, 'read', { name: 'Read', icon: '📖' }, '2026-01');
+
+  it('leaves the months between archiving and restoring untracked', () => {
+    const archived = archiveDefinition(added, 'read', '2026-01', 1);
+    const [restored] = restoreDefinition(archived, 'read', '2026-05').habits;
+    expect(['2026-01', '2026-02', '2026-04', '2026-05', '2026-09'].map((key) => isActiveIn(restored, key))).toEqual([
+      true,
+      false,
+      false,
+      true,
+      true,
+    ]);
+    expect(restored.archivedAt).toBeUndefined();
+  });
+
+  it('adds no gap when restored in the month it was archived in', () => {
+    const archived = archiveDefinition(added, 'read', '2026-03', 1);
+    expect(restoreDefinition(archived, 'read', '2026-03').habits[0].gaps).toBeUndefined();
+  });
+});
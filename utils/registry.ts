@@ -0,0 +1,324 @@
+import {
+  ArchivedHabit,
+  EditScope,
+  Habit,
+  HabitDefinition,
+  HabitEntry,
+  HabitFields,
+  HabitRegistry,
+  HabitRevision,
+  MetricDefinition,
+  MonthData,
+  StoredMonth,
+  WeekStart,
+} from '../types';
+import { DEFAULT_METRICS } from '../constants';
+import { DEFAULT_WEEK_START, getDaysInMonth, parseMonthKey, toMonthKey } from './dates';
+import { DEFAULT_QUANTITY_TARGET, isQuantityHabit, normalizeHabit } from './habits';
+import { DEFAULT_SCHEDULE } from './schedule';
+
+export const EMPTY_REGISTRY: HabitRegistry = { habits: [], metrics: DEFAULT_METRICS, lastUpdated: 0 };
+
+// --- Reading ---
+
+export const isActiveIn = (definition: HabitDefinition, monthKey: string) =>
+  definition.activeFrom <= monthKey &&
+  (!definition.activeTo || monthKey <= definition.activeTo) &&
+  !definition.gaps?.some((gap) => gap.from <= monthKey && monthKey <= gap.to);
+
+// Revision in effect for a month; months before the first revision use the first one
+export const getRevision = (definition: HabitDefinition, monthKey: string): HabitRevision =>
+  [...definition.revisions].reverse().find((r) => r.from <= monthKey) ?? definition.revisions[0];
+
+export const getFields = (habit: HabitFields): HabitFields => ({
+  name: habit.name,
+  icon: habit.icon,
+  schedule: habit.schedule ?? DEFAULT_SCHEDULE,
+  kind: habit.kind ?? 'boolean',
+  ...(habit.kind === 'quantity' ? { unit: habit.unit ?? '', target: habit.target ?? DEFAULT_QUANTITY_TARGET } : {}),
+});
+
+const sameFields = (a: HabitFields, b: HabitFields) => JSON.stringify(getFields(a)) === JSON.stringify(getFields(b));
+
+const resolveHabit = (
+  definition: HabitDefinition,
+  entry: HabitEntry | undefined,
+  year: number,
+  month: number,
+  weekStart: WeekStart
+): Habit => {
+  const monthKey = toMonthKey(year, month);
+  const fields = getFields(getRevision(definition, monthKey));
+  const habit: Habit = {
+    id: definition.id,
+    ...fields,
+    goal: 0, // Set by normalizeHabit
+    checks: entry?.checks ?? [],
+    ...(fields.kind === 'quantity' && entry?.values ? { values: entry.values } : {}),
+    ...(entry?.notes ? { notes: entry.notes } : {}),
+    ...(entry?.skips ? { skips: entry.skips } : {}),
+    ...(definition.archivedAt !== undefined && definition.activeTo === monthKey ? { archivedAt: definition.archivedAt } : {}),
+  };
+  return normalizeHabit(habit, year, month, getDaysInMonth(year, month), weekStart);
+};
+
+/**
+ * The habits of a month: every definition active that month, in registry order, with
+ * the revision in effect and the month's check data. Check data of habits that are
+ * not active is ignored.
+ */
+export const resolveHabits = (
+  registry: HabitRegistry,
+  entries: Record<string, HabitEntry>,
+  year: number,
+  month: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): Habit[] => {
+  const monthKey = toMonthKey(year, month);
+  return registry.habits
+    .filter((d) => isActiveIn(d, monthKey))
+    .map((d) => resolveHabit(d, entries[d.id], year, month, weekStart));
+};
+
+export const resolveMonth = (
+  registry: HabitRegistry,
+  stored: StoredMonth,
+  year: number,
+  month: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): MonthData => ({
+  schemaVersion: stored.schemaVersion,
+  habits: resolveHabits(registry, stored.entries, year, month, weekStart),
+  mentalState: stored.mentalState,
+  lastUpdated: stored.lastUpdated,
+});
+
+export const getEntries = (habits: Habit[]): Record<string, HabitEntry> =>
+  Object.fromEntries(
+    habits.map((h) => [
+      h.id,
+      {
+        checks: h.checks,
+        ...(isQuantityHabit(h) && h.values ? { values: h.values } : {}),
+        ...(h.notes && Object.keys(h.notes).length > 0 ? { notes: h.notes } : {}),
+        ...(h.skips && Object.keys(h.skips).length > 0 ? { skips: h.skips } : {}),
+      },
+    ])
+  );
+
+// Inverse of resolveMonth: drops the definitions, keeping only check data
+export const toStoredMonth = (data: MonthData): StoredMonth => ({
+  entries: getEntries(data.habits),
+  mentalState: data.mentalState,
+  lastUpdated: data.lastUpdated,
+});
+
+/**
+ * Habits archived in or before the given month, most recently archived first. Each is
+ * resolved as it was in the month it was archived in.
+ */
+export const listArchivedHabits = (
+  registry: HabitRegistry,
+  year: number,
+  month: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): ArchivedHabit[] => {
+  const monthKey = toMonthKey(year, month);
+  return registry.habits
+    .filter((d) => d.archivedAt !== undefined && !!d.activeTo && d.activeTo <= monthKey)
+    .sort((a, b) => (b.archivedAt ?? 0) - (a.archivedAt ?? 0))
+    .map((d) => {
+      const archivedIn = parseMonthKey(d.activeTo!);
+      return { habit: resolveHabit(d, undefined, archivedIn.year, archivedIn.month, weekStart), ...archivedIn };
+    });
+};
+
+// Whether "from this month on" and "everywhere" would differ for an edit made in this month
+export const hasEarlierMonths = (registry: HabitRegistry, habitId: string, year: number, month: number) => {
+  const definition = registry.habits.find((d) => d.id === habitId);
+  return !!definition && definition.activeFrom < toMonthKey(year, month);
+};
+
+// --- Building ---
+
+/**
+ * Builds a registry from months that still embed their habit definitions (data saved
+ * before the registry existed, or old backups). A new revision starts wherever a
+ * habit's definition changed. Habits present in the latest month stay open-ended, the
+ * rest end in the last month they appear in.
+ */
+export const buildRegistry = (
+  months: { year: number; month: number; habits: (HabitFields & Pick<Habit, 'id' | 'archivedAt'>)[] }[]
+): HabitRegistry => {
+  const sorted = [...months].sort((a, b) => a.year - b.year || a.month - b.month);
+  const byId = new Map<string, HabitDefinition>();
+
+  sorted.forEach(({ year, month, habits }) => {
+    const monthKey = toMonthKey(year, month);
+    habits.forEach((h) => {
+      const fields = getFields(h);
+      const definition = byId.get(h.id);
+      if (!definition) {
+        byId.set(h.id, { id: h.id, activeFrom: monthKey, activeTo: monthKey, revisions: [{ from: monthKey, ...fields }] });
+      } else if (!sameFields(definition.revisions[definition.revisions.length - 1], fields)) {
+        definition.revisions.push({ from: monthKey, ...fields });
+      }
+      const current = byId.get(h.id)!;
+      current.activeTo = monthKey;
+      current.archivedAt = h.archivedAt;
+    });
+  });
+
+  const latest = sorted[sorted.length - 1];
+  const latestKey = latest ? toMonthKey(latest.year, latest.month) : '';
+  const latestOrder = latest ? latest.habits.map((h) => h.id) : [];
+  const definitions = [...byId.values()].map((d): HabitDefinition => {
+    if (d.archivedAt !== undefined) return d;
+    const { archivedAt: _archivedAt, activeTo, ...rest } = d;
+    return activeTo === latestKey ? rest : { ...rest, activeTo };
+  });
+
+  // Latest month's order first, then habits that ended most recently
+  const rank = (d: HabitDefinition) => {
+    const index = latestOrder.indexOf(d.id);
+    return index >= 0 ? index : latestOrder.length;
+  };
+  definitions.sort((a, b) => rank(a) - rank(b) || (b.activeTo ?? '').localeCompare(a.activeTo ?? ''));
+  // Never updated by the user, so any edited registry is newer when merging
+  return { habits: definitions, metrics: DEFAULT_METRICS, lastUpdated: 0 };
+};
+
+const mergeById = <T extends { id: string }>(local: T[], incoming: T[], incomingWins: boolean): T[] => {
+  const incomingById = new Map(incoming.map((item) => [item.id, item]));
+  const localIds = new Set(local.map((item) => item.id));
+  return [
+    ...local.map((item) => (incomingWins ? incomingById.get(item.id) ?? item : item)),
+    ...incoming.filter((item) => !localIds.has(item.id)),
+  ];
+};
+
+/**
+ * Merges an imported registry into the local one. Unknown habits and metrics are
+ * added; for those on both sides the incoming definition wins when the incoming
+ * registry was updated more recently.
+ */
+export const mergeRegistry = (local: HabitRegistry, incoming: HabitRegistry): HabitRegistry => {
+  const incomingWins = incoming.lastUpdated > local.lastUpdated;
+  return {
+    habits: mergeById(local.habits, incoming.habits, incomingWins),
+    metrics: mergeById(local.metrics, incoming.metrics, incomingWins),
+    lastUpdated: Math.max(local.lastUpdated, incoming.lastUpdated),
+  };
+};
+
+// --- Edits ---
+
+const withHabits = (registry: HabitRegistry, habits: HabitDefinition[]): HabitRegistry => ({
+  ...registry,
+  habits,
+  lastUpdated: Date.now(),
+});
+
+const shiftMonthKey = (monthKey: string, offset: number) => {
+  const { year, month } = parseMonthKey(monthKey);
+  const date = new Date(year, month + offset, 1);
+  return toMonthKey(date.getFullYear(), date.getMonth());
+};
+
+const previousMonthKey = (monthKey: string) => shiftMonthKey(monthKey, -1);
+
+export const addDefinition = (registry: HabitRegistry, id: string, fields: HabitFields, monthKey: string) =>
+  withHabits(registry, [
+    ...registry.habits,
+    { id, activeFrom: monthKey, revisions: [{ from: monthKey, ...getFields(fields) }] },
+  ]);
+
+/**
+ * Adds habits from a template from the given month on, in order. Habits whose name is
+ * already tracked that month are skipped, so applying a template twice is harmless.
+ */
+export const addTemplateHabits = (registry: HabitRegistry, habits: HabitFields[], monthKey: string) => {
+  const taken = new Set(
+    registry.habits.filter((d) => isActiveIn(d, monthKey)).map((d) => getRevision(d, monthKey).name.trim().toLowerCase())
+  );
+  const idBase = Date.now().toString();
+  return habits.reduce((reg, fields, i) => {
+    const name = fields.name.trim().toLowerCase();
+    if (taken.has(name)) return reg;
+    taken.add(name);
+    return addDefinition(reg, `${idBase}-${i}`, fields, monthKey);
+  }, registry);
+};
+
+/**
+ * Changes a habit's definition. 'from-month' keeps earlier revisions and replaces the
+ * rest; 'everywhere' collapses the history into a single revision.
+ */
+export const updateDefinition = (
+  registry: HabitRegistry,
+  id: string,
+  fields: HabitFields,
+  monthKey: string,
+  scope: EditScope
+) =>
+  withHabits(
+    registry,
+    registry.habits.map((d) => {
+      if (d.id !== id) return d;
+      const next = getFields(fields);
+      if (scope === 'everywhere') return { ...d, revisions: [{ from: d.activeFrom, ...next }] };
+      const earlier = d.revisions.filter((r) => r.from < monthKey);
+      if (earlier.length > 0 && sameFields(earlier[earlier.length - 1], next)) return { ...d, revisions: earlier };
+      return { ...d, revisions: [...earlier, { from: earlier.length > 0 ? monthKey : d.activeFrom, ...next }] };
+    })
+  );
+
+// Ends the habit with this month and marks it archived; its history is untouched
+export const archiveDefinition = (registry: HabitRegistry, id: string, monthKey: string, archivedAt: number) =>
+  withHabits(registry, registry.habits.map((d) => (d.id === id ? { ...d, activeTo: monthKey, archivedAt } : d)));
+
+/**
+ * Makes an archived habit active again from this month on. The months since it was
+ * archived become a gap, so they don't turn into missed days.
+ */
+export const restoreDefinition = (registry: HabitRegistry, id: string, monthKey: string) =>
+  withHabits(
+    registry,
+    registry.habits.map((d) => {
+      if (d.id !== id) return d;
+      const { activeTo, archivedAt: _archivedAt, ...rest } = d;
+      const gap = activeTo ? { from: shiftMonthKey(activeTo, 1), to: previousMonthKey(monthKey) } : null;
+      return gap && gap.from <= gap.to ? { ...rest, gaps: [...(d.gaps ?? []), gap] } : rest;
+    })
+  );
+
+// Stops tracking the habit from this month on. A habit that started this month is removed.
+export const removeDefinition = (registry: HabitRegistry, id: string, monthKey: string) => {
+  const lastMonth = previousMonthKey(monthKey);
+  return withHabits(
+    registry,
+    registry.habits.flatMap((d) => {
+      if (d.id !== id) return [d];
+      if (lastMonth < d.activeFrom) return [];
+      const { archivedAt: _archivedAt, ...rest } = d;
+      return [{ ...rest, activeTo: lastMonth, revisions: d.revisions.filter((r) => r.from <= lastMonth) }];
+    })
+  );
+};
+
+// Swaps two habits in the display order (shared by all months)
+export const swapDefinitions = (registry: HabitRegistry, idA: string, idB: string) => {
+  const habits = [...registry.habits];
+  const a = habits.findIndex((d) => d.id === idA);
+  const b = habits.findIndex((d) => d.id === idB);
+  if (a < 0 || b < 0) return registry;
+  [habits[a], habits[b]] = [habits[b], habits[a]];
+  return withHabits(registry, habits);
+};
+
+// Replaces the daily metrics; values recorded for removed metrics stay in the months
+export const setMetrics = (registry: HabitRegistry, metrics: MetricDefinition[]): HabitRegistry => ({
+  ...registry,
+  metrics,
+  lastUpdated: Date.now(),
+});
@@ -0,0 +1,55 @@
+import { Habit, PlannedReminder, QuietHours, WeekStart } from '../types';
+import { DEFAULT_WEEK_START, toDateKey } from './dates';
+import { getCheckState, isArchived } from './habits';
+import { getScheduledDays } from './schedule';
+
+// Minutes after midnight for an 'HH:MM' time, or null if it isn't one
+export const parseTime = (time: unknown): number | null => {
+  const match = typeof time === 'string' ? /^(\d{2}):(\d{2})$/.exec(time) : null;
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+export const isQuietTime = (minutes: number, quietHours: QuietHours | null) => {
+  const start = parseTime(quietHours?.start);
+  const end = parseTime(quietHours?.end);
+  if (start === null || end === null || start === end) return false;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+/**
+ * Reminders for one day: every habit with a reminder time that is scheduled that day
+ * and not yet done, skipped or excused. Times inside the quiet hours are dropped
+ * rather than moved. With a `dayStart` after midnight, times before it fall on the
+ * next calendar date, which still belongs to `date`.
+ */
+export const planReminders = (
+  date: Date,
+  habits: Habit[],
+  reminders: Record<string, string>,
+  quietHours: QuietHours | null,
+  weekStart: WeekStart = DEFAULT_WEEK_START,
+  dayStart = 0
+): PlannedReminder[] => {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  const dayIndex = date.getDate() - 1;
+  const dateKey = toDateKey(year, month, dayIndex + 1);
+
+  return habits.flatMap((habit) => {
+    const minutes = parseTime(reminders[habit.id]);
+    if (minutes === null || isQuietTime(minutes, quietHours)) return [];
+    if (isArchived(habit) || getCheckState(habit, dayIndex) !== 'unlogged') return [];
+    if (!getScheduledDays(habit, year, month, weekStart)[dayIndex]) return [];
+    return [
+      {
+        key: `${dateKey}-${habit.id}`,
+        title: `${habit.icon} ${habit.name}`,
+        body: 'Not checked off yet today.',
+        at: new Date(year, month, dayIndex + 1 + (minutes < dayStart ? 1 : 0), Math.floor(minutes / 60), minutes % 60).getTime(),
+      },
+    ];
+  });
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_METRICS } from '../constants';
+import { Habit, MentalState, MonthRecord } from '../types';
+import { getDaysInMonth } from './dates';
+import { buildReview, getPeriod, shiftPeriod } from './review';
+
+const MONDAY = 1;
+
+const habit = (id: string, year: number, month: number, checkedDays: number[], fields: Partial<Habit> = {}): Habit => ({
+  id,
+  name: id === 'read' ? 'Read' : 'Run',
+  icon: '•',
+  goal: getDaysInMonth(year, month),
+  checks: Array.from({ length: getDaysInMonth(year, month) }, (_, i) => checkedDays.includes(i + 1)),
+  ...fields,
+});
+
+const record = (year: number, month: number, habits: Habit[], mentalState: MentalState[] = []): MonthRecord => ({
+  year,
+  month,
+  data: { habits, mentalState, lastUpdated: 1 },
+});
+
+// The week of Monday 2026-01-26 runs into February
+const week = getPeriod('week', new Date(2026, 0, 28), MONDAY);
+const weekBefore = shiftPeriod(week, -1, MONDAY);
+
+describe('getPeriod', () => {
+  it('starts weeks on the chosen weekday, across month boundaries', () => {
+    expect(week).toEqual({ kind: 'week', start: new Date(2026, 0, 26), end: new Date(2026, 1, 1) });
+    expect(weekBefore).toEqual({ kind: 'week', start: new Date(2026, 0, 19), end: new Date(2026, 0, 25) });
+    expect(getPeriod('month', new Date(2026, 1, 14), MONDAY)).toEqual({
+      kind: 'month',
+      start: new Date(2026, 1, 1),
+      end: new Date(2026, 1, 28),
+    });
+  });
+});
+
+describe('buildReview', () => {
+  it('sums a week across two months and compares it with the week before', () => {
+    const records = [
+      record(2026, 0, [habit('read', 2026, 0, [26, 27, 28, 29, 30, 31])]),
+      record(2026, 1, [habit('read', 2026, 1, []), habit('run', 2026, 1, [], { skips: { 0: 'skipped' } })]),
+    ];
+    const review = buildReview(records, week, weekBefore, DEFAULT_METRICS, MONDAY, new Date(2026, 1, 10));
+
+    expect(review.habits.find((h) => h.id === 'read')).toMatchObject({ done: 6, goal: 7, percent: 86, previousPercent: 0 });
+    expect(review.previousPercent).toBe(0);
+    expect(review.habitsAdded).toEqual(['Run']);
+    expect(review.bestDay!.date).toEqual(new Date(2026, 0, 26));
+    expect(review.worstDay!.date).toEqual(new Date(2026, 1, 1));
+  });
+
+  it('measures a week in progress against the days so far, without excused days', () => {
+    const records = [
+      record(2026, 0, [habit('read', 2026, 0, [26, 28], { skips: { 26: 'excused' } })], [
+        { day: 26, values: { mood: 6 } },
+        { day: 28, values: { mood: 8 } },
+        { day: 29, values: { mood: 1 } },
+      ]),
+    ];
+    const review = buildReview(records, week, weekBefore, DEFAULT_METRICS, MONDAY, new Date(2026, 0, 28));
+
+    expect(review.habits[0]).toMatchObject({ done: 2, goal: 2, percent: 100 });
+    expect(review.metrics.find((m) => m.id === 'mood')).toMatchObject({ average: 7, previousAverage: null });
+  });
+});
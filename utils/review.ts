@@ -0,0 +1,212 @@
+import {
+  DayReview,
+  HabitReview,
+  MetricDefinition,
+  MonthRecord,
+  PeriodReview,
+  ReviewPeriod,
+  ReviewPeriodKind,
+  WeekStart,
+} from '../types';
+import { getDaysInMonth, getWeekNumber, toDateKey } from './dates';
+import { getDayCredit, isExcused } from './habits';
+import { getGoalForDays, getSchedule } from './schedule';
+import { computeDailyStats } from './stats';
+
+// --- Periods ---
+
+export const getPeriod = (kind: ReviewPeriodKind, anchor: Date, weekStart: WeekStart): ReviewPeriod => {
+  if (kind === 'month') {
+    return {
+      kind,
+      start: new Date(anchor.getFullYear(), anchor.getMonth(), 1),
+      end: new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0),
+    };
+  }
+  const offset = (anchor.getDay() - weekStart + 7) % 7;
+  const start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() - offset);
+  return { kind, start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6) };
+};
+
+export const shiftPeriod = (period: ReviewPeriod, offset: number, weekStart: WeekStart): ReviewPeriod => {
+  const { start, kind } = period;
+  const anchor = kind === 'month'
+    ? new Date(start.getFullYear(), start.getMonth() + offset, 1)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset * 7);
+  return getPeriod(kind, anchor, weekStart);
+};
+
+export const formatPeriod = (period: ReviewPeriod, weekStart: WeekStart) => {
+  if (period.kind === 'month') {
+    return period.start.toLocaleString('default', { month: 'long', year: 'numeric' });
+  }
+  const format = (d: Date) => d.toLocaleString('default', { month: 'short', day: 'numeric' });
+  return `Week ${getWeekNumber(period.start, weekStart)}, ${format(period.start)} – ${format(period.end)} ${period.end.getFullYear()}`;
+};
+
+// --- Summaries ---
+
+interface PeriodSummary {
+  habits: Map<string, Omit<HabitReview, 'previousPercent'>>;
+  done: number;
+  goal: number;
+  days: DayReview[];
+  metricAverages: Record<string, number | null>;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : null;
+
+/**
+ * Aggregates the records over a period. Days after `today` are left out, so a period
+ * in progress is measured only against the days that have passed. Excused days don't
+ * count toward a habit's goal.
+ */
+const summarize = (
+  records: MonthRecord[],
+  metrics: MetricDefinition[],
+  period: ReviewPeriod,
+  today: Date,
+  weekStart: WeekStart
+): PeriodSummary => {
+  const last = period.end < today ? period.end : today;
+  const habits = new Map<string, Omit<HabitReview, 'previousPercent'> & { credit: number }>();
+  const days: DayReview[] = [];
+  const metricValues: Record<string, number[]> = Object.fromEntries(metrics.map((m) => [m.id, []]));
+
+  records.forEach(({ year, month, data }) => {
+    const dayIndexes = Array.from({ length: getDaysInMonth(year, month) }, (_, i) => i).filter((i) => {
+      const date = new Date(year, month, i + 1);
+      return date >= period.start && date <= last;
+    });
+    if (dayIndexes.length === 0) return;
+
+    data.habits.forEach((h) => {
+      const entry = habits.get(h.id) ?? { id: h.id, name: h.name, icon: h.icon, done: 0, goal: 0, percent: 0, credit: 0 };
+      entry.name = h.name;
+      entry.icon = h.icon;
+      const counted = dayIndexes.filter((i) => !isExcused(h, i));
+      entry.goal += counted.length > 0 ? getGoalForDays(getSchedule(h), year, month, counted, weekStart) : 0;
+      entry.credit += dayIndexes.reduce((acc, i) => acc + getDayCredit(h, i), 0);
+      habits.set(h.id, entry);
+    });
+
+    const stats = computeDailyStats(data.habits, year, month, weekStart);
+    dayIndexes.forEach((i) => {
+      days.push({ date: new Date(year, month, i + 1), percent: stats[i].percent, done: stats[i].done, counted: stats[i].counted });
+      const mental = data.mentalState.find((m) => m.day === i + 1);
+      metrics.forEach(({ id }) => {
+        if (mental?.values[id] !== undefined) metricValues[id].push(mental.values[id]);
+      });
+    });
+  });
+
+  let done = 0;
+  let goal = 0;
+  const result = new Map<string, Omit<HabitReview, 'previousPercent'>>();
+  habits.forEach(({ credit, ...entry }) => {
+    const credited = Math.min(credit, entry.goal);
+    done += credited;
+    goal += entry.goal;
+    result.set(entry.id, {
+      ...entry,
+      done: credited,
+      percent: entry.goal > 0 ? Math.round((credited / entry.goal) * 100) : 0,
+    });
+  });
+
+  const metricAverages = Object.fromEntries(metrics.map((m) => [m.id, average(metricValues[m.id])]));
+  return { habits: result, done, goal, days, metricAverages };
+};
+
+/**
+ * Builds the review for a period, compared with the period just before it.
+ * `records` must cover both periods.
+ */
+export const buildReview = (
+  records: MonthRecord[],
+  period: ReviewPeriod,
+  previousPeriod: ReviewPeriod,
+  metrics: MetricDefinition[],
+  weekStart: WeekStart,
+  today: Date = new Date()
+): PeriodReview => {
+  const current = summarize(records, metrics, period, today, weekStart);
+  const previous = summarize(records, metrics, previousPeriod, today, weekStart);
+
+  const scoredDays = current.days.filter((d) => d.counted > 0);
+  const bestDay = scoredDays.reduce<DayReview | null>((best, d) => (!best || d.percent > best.percent ? d : best), null);
+  const worstDay = scoredDays.reduce<DayReview | null>((worst, d) => (!worst || d.percent < worst.percent ? d : worst), null);
+
+  return {
+    period,
+    habits: [...current.habits.values()].map((h) => ({
+      ...h,
+      previousPercent: previous.habits.get(h.id)?.percent ?? null,
+    })),
+    percent: current.goal > 0 ? Math.round((current.done / current.goal) * 100) : 0,
+    previousPercent: previous.goal > 0 ? Math.round((previous.done / previous.goal) * 100) : null,
+    bestDay,
+    worstDay,
+    metrics: metrics.map((m) => ({
+      id: m.id,
+      name: m.name,
+      ...(m.unit ? { unit: m.unit } : {}),
+      average: current.metricAverages[m.id],
+      previousAverage: previous.metricAverages[m.id],
+    })),
+    habitsAdded: previous.habits.size > 0
+      ? [...current.habits.values()].filter((h) => !previous.habits.has(h.id)).map((h) => h.name)
+      : [],
+    habitsRemoved: [...previous.habits.values()].filter((h) => !current.habits.has(h.id)).map((h) => h.name),
+  };
+};
+
+// --- Markdown ---
+
+export const formatDelta = (value: number | null, previous: number | null, suffix = '') => {
+  if (value === null || previous === null) return '';
+  const delta = value - previous;
+  const rounded = Math.abs(delta) < 10 ? delta.toFixed(1).replace(/\.0$/, '') : Math.round(delta).toString();
+  return ` (${delta >= 0 ? '+' : ''}${rounded}${suffix})`;
+};
+
+export const formatAverage = (value: number | null) => (value === null ? '–' : value.toFixed(1));
+
+export const formatReviewDay = (day: DayReview | null) =>
+  day
+    ? `${day.date.toLocaleDateString('default', { weekday: 'short', month: 'short', day: 'numeric' })} (${day.percent}%)`
+    : '–';
+
+export const reviewToMarkdown = (review: PeriodReview, weekStart: WeekStart): string => {
+  const lines = [
+    `# ${review.period.kind === 'week' ? 'Weekly' : 'Monthly'} Review: ${formatPeriod(review.period, weekStart)}`,
+    '',
+    `- **Overall completion:** ${review.percent}%${formatDelta(review.percent, review.previousPercent, ' pts')}`,
+    `- **Best day:** ${formatReviewDay(review.bestDay)}`,
+    `- **Worst day:** ${formatReviewDay(review.worstDay)}`,
+    ...review.metrics.map(
+      (m) => `- **Average ${m.name.toLowerCase()}:** ${formatAverage(m.average)}${m.unit && m.average !== null ? ` ${m.unit}` : ''}${formatDelta(m.average, m.previousAverage)}`
+    ),
+    '',
+    '## Habits',
+    '',
+    '| Habit | Done | Goal | Completion | vs. previous |',
+    '| --- | ---: | ---: | ---: | ---: |',
+    ...review.habits.map((h) => {
+      const change = h.previousPercent === null ? 'new' : `${h.percent - h.previousPercent >= 0 ? '+' : ''}${h.percent - h.previousPercent} pts`;
+      const name = `${h.icon} ${h.name}`.replace(/\|/g, '\\|');
+      return `| ${name} | ${Number.isInteger(h.done) ? h.done : h.done.toFixed(1)} | ${h.goal} | ${h.percent}% | ${change} |`;
+    }),
+  ];
+
+  if (review.habitsAdded.length > 0 || review.habitsRemoved.length > 0) {
+    lines.push('', '## Changes', '');
+    if (review.habitsAdded.length > 0) lines.push(`- Added: ${review.habitsAdded.join(', ')}`);
+    if (review.habitsRemoved.length > 0) lines.push(`- Removed: ${review.habitsRemoved.join(', ')}`);
+  }
+
+  const today = new Date();
+  lines.push('', `_Generated ${toDateKey(today.getFullYear(), today.getMonth(), today.getDate())}_`, '');
+  return lines.join('\n');
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { Habit, HabitSchedule } from '../types';
+import { getGoalForDays, getMonthlyGoal, getScheduledDays } from './schedule';
+
+// February 2026 starts on a Sunday, so with Monday weeks it splits into 1 + 7 + 7 + 7 + 6 days
+const YEAR = 2026;
+const FEB = 1;
+const MONDAY = 1;
+
+const habit = (schedule: HabitSchedule, checkedDays: number[] = []): Habit => ({
+  id: 'read',
+  name: 'Read',
+  icon: '📖',
+  goal: 0,
+  schedule,
+  checks: Array.from({ length: 28 }, (_, i) => checkedDays.includes(i)),
+});
+
+describe('getMonthlyGoal', () => {
+  it('prorates weekly quotas for the partial weeks at the month edges', () => {
+    expect(getMonthlyGoal({ type: 'weekly', timesPerWeek: 3 }, YEAR, FEB, MONDAY)).toBe(1 + 3 + 3 + 3 + 3);
+    expect(getMonthlyGoal({ type: 'weekly', timesPerWeek: 7 }, YEAR, FEB, MONDAY)).toBe(28);
+  });
+
+  it('counts the chosen weekdays in the month', () => {
+    expect(getMonthlyGoal({ type: 'weekdays', days: [1, 3, 5] }, YEAR, FEB, MONDAY)).toBe(12);
+    expect(getMonthlyGoal({ type: 'weekdays', days: [] }, YEAR, FEB, MONDAY)).toBe(0);
+  });
+
+  it('caps monthly counts at the length of the month', () => {
+    expect(getMonthlyGoal({ type: 'monthly', count: 40 }, YEAR, FEB, MONDAY)).toBe(28);
+    expect(getMonthlyGoal({ type: 'daily' }, YEAR, FEB, MONDAY)).toBe(28);
+  });
+});
+
+describe('getGoalForDays', () => {
+  it('prorates frequency schedules by the number of days', () => {
+    const fourDays = [0, 1, 2, 3];
+    expect(getGoalForDays({ type: 'weekly', timesPerWeek: 3 }, YEAR, FEB, fourDays, MONDAY)).toBe(2);
+    expect(getGoalForDays({ type: 'monthly', count: 10 }, YEAR, FEB, [...fourDays, 4, 5, 6], MONDAY)).toBe(3);
+    expect(getGoalForDays({ type: 'weekdays', days: [1, 3, 5] }, YEAR, FEB, fourDays, MONDAY)).toBe(2);
+  });
+});
+
+describe('getScheduledDays', () => {
+  it('closes the rest of a week once its quota is met', () => {
+    const scheduled = getScheduledDays(habit({ type: 'weekly', timesPerWeek: 1 }, [2]), YEAR, FEB, MONDAY);
+    expect(scheduled.slice(1, 8)).toEqual([false, true, false, false, false, false, false]);
+    expect(scheduled.slice(8, 15).every(Boolean)).toBe(true);
+  });
+
+  it('counts a check on an unscheduled weekday as scheduled', () => {
+    const scheduled = getScheduledDays(habit({ type: 'weekdays', days: [1, 3, 5] }, [2]), YEAR, FEB, MONDAY);
+    expect(scheduled.slice(0, 7)).toEqual([false, true, true, true, false, true, false]);
+  });
+
+  it('keeps every day open until the monthly count is reached', () => {
+    expect(getScheduledDays(habit({ type: 'monthly', count: 2 }, [0]), YEAR, FEB, MONDAY).every(Boolean)).toBe(true);
+    const met = getScheduledDays(habit({ type: 'monthly', count: 2 }, [0, 5]), YEAR, FEB, MONDAY);
+    expect(met.flatMap((s, i) => (s ? [i] : []))).toEqual([0, 5]);
+  });
+});
@@ -0,0 +1,122 @@
+import { Habit, HabitSchedule, WeekStart } from '../types';
+import { DAYS_OF_WEEK } from '../constants';
+import { DEFAULT_WEEK_START, getCalendarWeekDays, getDaysInMonth } from './dates';
+import { getDayCredit } from './habits';
+
+export const DEFAULT_SCHEDULE: HabitSchedule = { type: 'daily' };
+
+// Habits stored before schedules existed are treated as daily, and quit habits always are
+export const getSchedule = (habit: Pick<Habit, 'schedule' | 'kind'>): HabitSchedule =>
+  habit.kind === 'quit' ? DEFAULT_SCHEDULE : habit.schedule ?? DEFAULT_SCHEDULE;
+
+// Quota for a partial week at a month edge is prorated by the number of days it has
+const weeklyQuota = (timesPerWeek: number, daysInWeek: number) =>
+  Math.min(daysInWeek, Math.ceil((timesPerWeek * daysInWeek) / 7));
+
+/**
+ * Number of completions a schedule asks for in the given month.
+ */
+export const getMonthlyGoal = (
+  schedule: HabitSchedule,
+  year: number,
+  month: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): number => {
+  const daysInMonth = getDaysInMonth(year, month);
+  switch (schedule.type) {
+    case 'daily':
+      return daysInMonth;
+    case 'weekdays':
+      return Array.from({ length: daysInMonth }, (_, i) => new Date(year, month, i + 1).getDay())
+        .filter((weekday) => schedule.days.includes(weekday)).length;
+    case 'weekly':
+      return getCalendarWeekDays(year, month, weekStart).reduce(
+        (acc, week) => acc + weeklyQuota(schedule.timesPerWeek, week.length),
+        0
+      );
+    case 'monthly':
+      return Math.min(schedule.count, daysInMonth);
+  }
+};
+
+/**
+ * Goal for a subset of a month's days, e.g. one week of a review. A full month uses
+ * the monthly goal; partial ranges prorate frequency schedules by their length.
+ */
+export const getGoalForDays = (
+  schedule: HabitSchedule,
+  year: number,
+  month: number,
+  dayIndexes: number[],
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): number => {
+  const daysInMonth = getDaysInMonth(year, month);
+  if (dayIndexes.length >= daysInMonth) return getMonthlyGoal(schedule, year, month, weekStart);
+  switch (schedule.type) {
+    case 'daily':
+      return dayIndexes.length;
+    case 'weekdays':
+      return dayIndexes.filter((i) => schedule.days.includes(new Date(year, month, i + 1).getDay())).length;
+    case 'weekly':
+      return weeklyQuota(schedule.timesPerWeek, dayIndexes.length);
+    case 'monthly':
+      return Math.min(dayIndexes.length, Math.ceil((schedule.count * dayIndexes.length) / daysInMonth));
+  }
+};
+
+/**
+ * Flags, per day of the month, whether the habit is expected on that day.
+ * Fixed weekdays are scheduled on those weekdays only. Frequency schedules (N per week
+ * or per month) keep every day open until the period's quota is met; after that only
+ * the checked days count. A check on an unscheduled day is always counted as scheduled.
+ */
+export const getScheduledDays = (
+  habit: Habit,
+  year: number,
+  month: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): boolean[] => {
+  const schedule = getSchedule(habit);
+  const daysInMonth = getDaysInMonth(year, month);
+  const checked = (i: number) => !!habit.checks[i];
+
+  switch (schedule.type) {
+    case 'daily':
+      return Array(daysInMonth).fill(true);
+    case 'weekdays':
+      return Array.from({ length: daysInMonth }, (_, i) =>
+        checked(i) || schedule.days.includes(new Date(year, month, i + 1).getDay())
+      );
+    case 'weekly': {
+      const scheduled: boolean[] = Array(daysInMonth).fill(false);
+      getCalendarWeekDays(year, month, weekStart).forEach((week) => {
+        const quotaMet = week.filter(checked).length >= weeklyQuota(schedule.timesPerWeek, week.length);
+        week.forEach((i) => { scheduled[i] = checked(i) || !quotaMet; });
+      });
+      return scheduled;
+    }
+    case 'monthly': {
+      const quotaMet = habit.checks.filter(Boolean).length >= Math.min(schedule.count, daysInMonth);
+      return Array.from({ length: daysInMonth }, (_, i) => checked(i) || !quotaMet);
+    }
+  }
+};
+
+// Completions that count toward the goal (extra checks beyond the goal are not credited)
+export const getCreditedChecks = (habit: Habit) =>
+  Math.min(habit.checks.reduce((acc, _, i) => acc + getDayCredit(habit, i), 0), habit.goal);
+
+export const describeSchedule = (schedule: HabitSchedule): string => {
+  switch (schedule.type) {
+    case 'daily':
+      return 'Daily';
+    case 'weekdays':
+      return schedule.days.length > 0
+        ? [...schedule.days].sort().map((d) => DAYS_OF_WEEK[d]).join('/')
+        : 'No days';
+    case 'weekly':
+      return `${schedule.timesPerWeek}x / week`;
+    case 'monthly':
+      return `${schedule.count}x / month`;
+  }
+};
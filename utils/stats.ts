@@ -0,0 +1,68 @@
+import { DailyStat, Habit, WeekStart } from '../types';
+import { DEFAULT_WEEK_START, getDaysInMonth } from './dates';
+import { getDayCredit, isArchived, isDayLogged, isExcused } from './habits';
+import { getCreditedChecks, getGoalForDays, getSchedule, getScheduledDays } from './schedule';
+
+/**
+ * Per-day completion for a month, counting only the habits scheduled on each day.
+ * Quantity habits below target add partial credit to the percentage. Excused habits
+ * and days nothing was logged on are left out rather than counted as missed, as are
+ * archived habits, which are hidden from the grid. Days after the first `elapsedDays`
+ * haven't happened yet and count as not logged.
+ */
+export const computeDailyStats = (
+  allHabits: Habit[],
+  year: number,
+  month: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START,
+  elapsedDays = getDaysInMonth(year, month)
+): DailyStat[] => {
+  const habits = allHabits.filter((h) => !isArchived(h));
+  const scheduledDays = habits.map((h) => getScheduledDays(h, year, month, weekStart));
+  return Array.from({ length: getDaysInMonth(year, month) }, (_, i) => {
+    const scheduled = habits.filter((_, hIdx) => scheduledDays[hIdx][i]);
+    const logged = i < elapsedDays && habits.some((h) => isDayLogged(h, i));
+    const counted = logged ? scheduled.filter((h) => !isExcused(h, i)) : [];
+    const doneCount = counted.reduce((acc, h) => acc + (h.checks[i] ? 1 : 0), 0);
+    const credit = counted.reduce((acc, h) => acc + getDayCredit(h, i), 0);
+    return {
+      day: i + 1,
+      done: doneCount,
+      notDone: counted.length - doneCount,
+      percent: counted.length > 0 ? Math.round((credit / counted.length) * 100) : 0,
+      scheduled: scheduled.length,
+      excused: scheduled.filter((h) => isExcused(h, i)).length,
+      counted: counted.length,
+      credit,
+    };
+  });
+};
+
+/**
+ * A habit's goal and credited completions over the first `elapsedDays` of its month,
+ * so progress mid-month is measured against what could have been done so far. Excused
+ * days are left out, as they are from the monthly goal.
+ */
+export const getElapsedProgress = (
+  habit: Habit,
+  year: number,
+  month: number,
+  elapsedDays: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START
+) => {
+  if (elapsedDays >= getDaysInMonth(year, month)) return { goal: habit.goal, credit: getCreditedChecks(habit) };
+  const days = Array.from({ length: elapsedDays }, (_, i) => i);
+  const goal = getGoalForDays(getSchedule(habit), year, month, days.filter((i) => !isExcused(habit, i)), weekStart);
+  const credit = Math.min(days.reduce((acc, i) => acc + getDayCredit(habit, i), 0), goal);
+  return { goal, credit };
+};
+
+/**
+ * Done / possible / percent subtotals for groups of days (e.g. calendar weeks).
+ */
+export const sumDailyStats = (stats: DailyStat[], dayIndexes: number[]) => {
+  const done = dayIndexes.reduce((acc, i) => acc + stats[i].done, 0);
+  const possible = dayIndexes.reduce((acc, i) => acc + stats[i].counted, 0);
+  const credit = dayIndexes.reduce((acc, i) => acc + stats[i].credit, 0);
+  return { done, possible, percent: possible > 0 ? Math.round((credit / possible) * 100) : 0 };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { Habit, MonthRecord } from '../types';
+import { getDaysInMonth } from './dates';
+import { computeStreaks } from './streaks';
+
+// Month record holding one habit checked on the given days of the month (1-based)
+const month = (year: number, month: number, days: number[], fields: Partial<Habit> = {}): MonthRecord => {
+  const length = getDaysInMonth(year, month);
+  return {
+    year,
+    month,
+    data: {
+      habits: [
+        {
+          id: 'read',
+          name: 'Read',
+          icon: '📖',
+          goal: length,
+          checks: Array.from({ length }, (_, i) => days.includes(i + 1)),
+          ...fields,
+        },
+      ],
+      mentalState: [],
+      lastUpdated: 1,
+    },
+  };
+};
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+const streakOf = (history: MonthRecord[], asOf: Date, today: Date) => computeStreaks(history, ['read'], asOf, today, 1).read;
+
+describe('computeStreaks', () => {
+  it('carries a streak across a month boundary', () => {
+    const history = [month(2026, 0, [...range(1, 10), ...range(29, 31)]), month(2026, 1, [1, 2])];
+    expect(streakOf(history, new Date(2026, 1, 2), new Date(2026, 1, 3))).toEqual({
+      current: 5,
+      longest: 10,
+      lastBroken: new Date(2026, 0, 11),
+    });
+  });
+
+  it('breaks the streak on the first day of a month missing from the history', () => {
+    const history = [month(2026, 0, range(1, 31)), month(2026, 2, [1])];
+    expect(streakOf(history, new Date(2026, 2, 1), new Date(2026, 2, 2))).toEqual({
+      current: 1,
+      longest: 31,
+      lastBroken: new Date(2026, 1, 1),
+    });
+  });
+
+  it('skips days the habit is not scheduled on', () => {
+    // Mon/Wed/Fri; 2026-02-02 is a Monday
+    const history = [month(2026, 1, [2, 4, 6], { schedule: { type: 'weekdays', days: [1, 3, 5] } })];
+    expect(streakOf(history, new Date(2026, 1, 7), new Date(2026, 1, 8))).toMatchObject({ current: 3, lastBroken: null });
+  });
+
+  it('neither extends nor breaks the streak on excused days', () => {
+    const history = [month(2026, 1, [1, 2, 3, 5], { skips: { 3: 'excused' } })];
+    expect(streakOf(history, new Date(2026, 1, 5), new Date(2026, 1, 6))).toMatchObject({ current: 4, lastBroken: null });
+  });
+
+  it('does not break the streak on an unchecked today', () => {
+    const history = [month(2026, 1, [1, 2, 3])];
+    expect(streakOf(history, new Date(2026, 1, 4), new Date(2026, 1, 4)).current).toBe(3);
+    expect(streakOf(history, new Date(2026, 1, 4), new Date(2026, 1, 5))).toMatchObject({
+      current: 0,
+      lastBroken: new Date(2026, 1, 4),
+    });
+  });
+
+  it('counts clean days of a quit habit and breaks the streak on a slip, even today', () => {
+    const quit = month(2026, 1, range(1, 28).filter((d) => d !== 10), { kind: 'quit', skips: { 9: 'slipped' } });
+
+    expect(streakOf([quit], new Date(2026, 1, 10), new Date(2026, 1, 10))).toEqual({
+      current: 0,
+      longest: 9,
+      lastBroken: new Date(2026, 1, 10),
+    });
+    expect(streakOf([quit], new Date(2026, 1, 15), new Date(2026, 1, 15))).toMatchObject({ current: 5, longest: 9 });
+  });
+});
@@ -0,0 +1,87 @@
+import { HabitStreak, MonthData, MonthRecord, WeekStart } from '../types';
+import { DEFAULT_WEEK_START, getDaysInMonth } from './dates';
+import { getScheduledDays } from './schedule';
+
+const MAX_HISTORY_MONTHS = 120;
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+/**
+ * Walks backwards from the given month and collects every consecutive month that has
+ * stored data. Stops at the first gap, since habits are only carried over month-to-month.
+ * Returned records are sorted oldest first and exclude the starting month itself.
+ */
+export const collectPreviousMonths = async (
+  year: number,
+  month: number,
+  readMonth: (year: number, month: number) => Promise<MonthData | null>
+): Promise<MonthRecord[]> => {
+  const records: MonthRecord[] = [];
+  for (let offset = 1; offset <= MAX_HISTORY_MONTHS; offset++) {
+    const date = new Date(year, month - offset, 1);
+    const data = await readMonth(date.getFullYear(), date.getMonth());
+    if (!data) break;
+    records.unshift({ year: date.getFullYear(), month: date.getMonth(), data });
+  }
+  return records;
+};
+
+/**
+ * Computes current streak, longest streak and last-broken date per habit id across
+ * consecutive month records (oldest first). Days after `asOf` are ignored, and an
+ * unchecked `today` does not break a streak yet since the day is still in progress, but
+ * a slip of a quit habit today does. Days the habit isn't scheduled on, or is excused
+ * on, neither extend nor break a streak. For quit habits a streak is a clean run.
+ */
+export const computeStreaks = (
+  history: MonthRecord[],
+  habitIds: string[],
+  asOf: Date,
+  today: Date = new Date(),
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): Record<string, HabitStreak> => {
+  const result: Record<string, HabitStreak> = {};
+
+  habitIds.forEach((id) => {
+    let run = 0;
+    let longest = 0;
+    let lastBroken: Date | null = null;
+    let expected: Date | null = null;
+
+    for (const record of history) {
+      const monthStart = new Date(record.year, record.month, 1);
+      if (monthStart > asOf) break;
+
+      // A missing month in between means every day of it was missed
+      if (expected && monthStart.getTime() !== expected.getTime() && run > 0) {
+        lastBroken = expected;
+        run = 0;
+      }
+      expected = new Date(record.year, record.month + 1, 1);
+
+      const habit = record.data.habits.find((h) => h.id === id);
+      const daysInMonth = getDaysInMonth(record.year, record.month);
+      const scheduled = habit ? getScheduledDays(habit, record.year, record.month, weekStart) : null;
+
+      for (let d = 1; d <= daysInMonth; d++) {
+        const date = new Date(record.year, record.month, d);
+        if (date > asOf) break;
+
+        if (habit?.checks[d - 1]) {
+          run++;
+          longest = Math.max(longest, run);
+        } else if (scheduled?.[d - 1] === false || habit?.skips?.[d - 1] === 'excused') {
+          continue;
+        } else if (!isSameDay(date, today) || habit?.skips?.[d - 1] === 'slipped') {
+          if (run > 0 || habit?.skips?.[d - 1] === 'slipped') lastBroken = date;
+          run = 0;
+        }
+      }
+    }
+
+    result[id] = { current: run, longest, lastBroken };
+  });
+
+  return result;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { HabitDefinition, HabitEntry, HabitRegistry, StoredMonth } from '../types';
+import { mergeRegistries, mergeStoredMonths } from './sync';
+
+const entry = (checks: boolean[], extra: Partial<HabitEntry> = {}): HabitEntry => ({ checks, ...extra });
+
+const month = (entries: Record<string, HabitEntry>, lastUpdated: number): StoredMonth => ({ entries, mentalState: [], lastUpdated });
+
+const definition = (id: string, name: string): HabitDefinition => ({
+  id,
+  activeFrom: '2026-01',
+  revisions: [{ from: '2026-01', name, icon: '⭐' }],
+});
+
+const registry = (habits: HabitDefinition[], lastUpdated: number): HabitRegistry => ({ habits, metrics: [], lastUpdated });
+
+describe('mergeStoredMonths', () => {
+  it('keeps days filled in on either side when there is no base yet', () => {
+    const local = month({ read: entry([true, false, false]) }, 1);
+    const remote = month({ read: entry([false, false, true]) }, 2);
+    expect(mergeStoredMonths(null, local, remote).entries.read.checks).toEqual([true, false, true]);
+  });
+
+  it('takes a day changed on one side only, whichever side saved last', () => {
+    const base = month({ read: entry([true, true, false]) }, 1);
+    const local = month({ read: entry([true, false, false]) }, 5); // Unchecked day 2
+    const remote = month({ read: entry([true, true, true]) }, 3); // Checked day 3
+    expect(mergeStoredMonths(base, local, remote).entries.read.checks).toEqual([true, false, true]);
+  });
+
+  it('settles a day changed on both sides in favour of the later save', () => {
+    const base = month({ read: entry([false]) }, 1);
+    const local = month({ read: entry([true]) }, 2);
+    const remote = month({ read: entry([false], { skips: { 0: 'skipped' } }) }, 3);
+    expect(mergeStoredMonths(base, local, remote).entries.read).toEqual(entry([false], { skips: { 0: 'skipped' } }));
+    expect(mergeStoredMonths(base, { ...local, lastUpdated: 4 }, remote).entries.read).toEqual(entry([true]));
+  });
+
+  it('keeps a habit dropped on one side dropped when the other left it alone', () => {
+    const base = month({ read: entry([true]), run: entry([false]) }, 1);
+    const local = month({ run: entry([false]) }, 2);
+    const remote = month({ read: entry([true]), run: entry([true]) }, 3);
+    expect(Object.keys(mergeStoredMonths(base, local, remote).entries)).toEqual(['run']);
+  });
+
+  it('merges metric values and journal entries per day', () => {
+    const base: StoredMonth = { entries: {}, mentalState: [{ day: 1, values: { mood: 5 } }], lastUpdated: 1 };
+    const local: StoredMonth = { ...base, mentalState: [{ day: 1, values: { mood: 7 } }], lastUpdated: 2 };
+    const remote: StoredMonth = { ...base, mentalState: [{ day: 1, values: { mood: 5 }, journal: 'Long day' }], lastUpdated: 3 };
+    expect(mergeStoredMonths(base, local, remote).mentalState).toEqual([{ day: 1, values: { mood: 7 }, journal: 'Long day' }]);
+  });
+});
+
+describe('mergeRegistries', () => {
+  it('keeps habits added on either side, local ones first', () => {
+    const base = registry([definition('read', 'Read')], 1);
+    const local = registry([...base.habits, definition('run', 'Run')], 2);
+    const remote = registry([...base.habits, definition('swim', 'Swim')], 3);
+    expect(mergeRegistries(base, local, remote).habits.map((h) => h.id)).toEqual(['read', 'run', 'swim']);
+  });
+
+  it('keeps a deletion unless the other side changed the habit', () => {
+    const base = registry([definition('read', 'Read'), definition('run', 'Run')], 1);
+    const local = registry([definition('run', 'Run')], 2); // Deleted "Read"
+    expect(mergeRegistries(base, local, base).habits.map((h) => h.id)).toEqual(['run']);
+
+    const renamed = registry([definition('read', 'Read more'), definition('run', 'Run')], 3);
+    expect(mergeRegistries(base, local, renamed).habits.map((h) => h.revisions[0].name)).toEqual(['Run', 'Read more']);
+  });
+
+  it('settles a habit edited on both sides in favour of the later save', () => {
+    const base = registry([definition('read', 'Read')], 1);
+    const local = registry([definition('read', 'Read books')], 2);
+    const remote = registry([definition('read', 'Read papers')], 3);
+    expect(mergeRegistries(base, local, remote).habits[0].revisions[0].name).toBe('Read papers');
+  });
+});
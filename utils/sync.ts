@@ -0,0 +1,141 @@
+import { HabitEntry, HabitRegistry, MentalState, SkipReason, StoredMonth } from '../types';
+
+// Sync merges edits from two devices against the last version both had seen (the
+// base), one habit day, metric value or journal entry at a time. Only a cell edited on
+// both sides is a conflict; the side with the later `lastUpdated` wins it. Without a
+// base (the first sync) cells are compared against empty ones, so filled-in days from
+// both sides are kept.
+
+export const EMPTY_STORED_MONTH: StoredMonth = { entries: {}, mentalState: [], lastUpdated: 0 };
+
+const pick = <T>(base: T | undefined, local: T, remote: T, key: (value: T | undefined) => string, preferLocal: boolean) => {
+  const l = key(local);
+  const r = key(remote);
+  if (l === r) return local;
+  const b = key(base);
+  if (l === b) return remote;
+  if (r === b) return local;
+  return preferLocal ? local : remote;
+};
+
+// --- Months ---
+
+interface Cell {
+  check: boolean;
+  value?: number;
+  note?: string;
+  skip?: SkipReason;
+}
+
+const getCell = (entry: HabitEntry | undefined, day: number): Cell => ({
+  check: entry?.checks[day] ?? false,
+  value: entry?.values?.[day],
+  note: entry?.notes?.[day],
+  skip: entry?.skips?.[day],
+});
+
+const cellKey = (cell: Cell | undefined) =>
+  JSON.stringify([cell?.check ?? false, cell?.value ?? null, cell?.note ?? null, cell?.skip ?? null]);
+
+const entryLength = (...entries: (HabitEntry | undefined)[]) => Math.max(0, ...entries.map((e) => e?.checks.length ?? 0));
+
+const entriesEqual = (a: HabitEntry | undefined, b: HabitEntry | undefined) =>
+  Array.from({ length: entryLength(a, b) }).every((_, day) => cellKey(getCell(a, day)) === cellKey(getCell(b, day)));
+
+const mergeEntry = (
+  base: HabitEntry | undefined,
+  local: HabitEntry | undefined,
+  remote: HabitEntry | undefined,
+  preferLocal: boolean
+): HabitEntry => {
+  const length = entryLength(base, local, remote);
+  const hasValues = !!(local?.values || remote?.values);
+  const merged: Required<HabitEntry> = { checks: [], values: [], notes: {}, skips: {} };
+  for (let day = 0; day < length; day++) {
+    const cell = pick(getCell(base, day), getCell(local, day), getCell(remote, day), cellKey, preferLocal);
+    merged.checks.push(cell.check);
+    merged.values.push(cell.value ?? 0);
+    if (cell.note) merged.notes[day] = cell.note;
+    if (cell.skip) merged.skips[day] = cell.skip;
+  }
+  return {
+    checks: merged.checks,
+    ...(hasValues ? { values: merged.values } : {}),
+    ...(Object.keys(merged.notes).length > 0 ? { notes: merged.notes } : {}),
+    ...(Object.keys(merged.skips).length > 0 ? { skips: merged.skips } : {}),
+  };
+};
+
+const mergeMentalDay = (
+  base: MentalState | undefined,
+  local: MentalState | undefined,
+  remote: MentalState | undefined,
+  day: number,
+  preferLocal: boolean
+): MentalState => {
+  const values: Record<string, number> = {};
+  const ids = new Set([...Object.keys(local?.values ?? {}), ...Object.keys(remote?.values ?? {})]);
+  ids.forEach((id) => {
+    const value = pick(base?.values[id], local?.values[id], remote?.values[id], (v) => String(v ?? ''), preferLocal);
+    if (value !== undefined) values[id] = value;
+  });
+  const journal = pick(base?.journal, local?.journal, remote?.journal, (j) => j ?? '', preferLocal);
+  return { day, values, ...(journal ? { journal } : {}) };
+};
+
+/**
+ * Three-way merge of one month's check data; `base` is null before the first sync. A
+ * habit whose data one side dropped, and the other left as it was, stays dropped.
+ */
+export const mergeStoredMonths = (base: StoredMonth | null, local: StoredMonth, remote: StoredMonth): StoredMonth => {
+  const preferLocal = local.lastUpdated >= remote.lastUpdated;
+  const entries: Record<string, HabitEntry> = {};
+  const ids = new Set([...Object.keys(local.entries), ...Object.keys(remote.entries)]);
+  ids.forEach((id) => {
+    const b = base?.entries[id];
+    const l = local.entries[id];
+    const r = remote.entries[id];
+    if (b && ((!l && entriesEqual(r, b)) || (!r && entriesEqual(l, b)))) return;
+    entries[id] = mergeEntry(b, l, r, preferLocal);
+  });
+
+  const days = Math.max(0, ...[...local.mentalState, ...remote.mentalState].map((m) => m.day));
+  const findDay = (states: MentalState[] | undefined, day: number) => states?.find((m) => m.day === day);
+  const mentalState = Array.from({ length: days }, (_, i) =>
+    mergeMentalDay(findDay(base?.mentalState, i + 1), findDay(local.mentalState, i + 1), findDay(remote.mentalState, i + 1), i + 1, preferLocal)
+  ).filter((m) => Object.keys(m.values).length > 0 || m.journal);
+
+  return { entries, mentalState, lastUpdated: Math.max(local.lastUpdated, remote.lastUpdated) };
+};
+
+// Same month in the shape merges produce, so months can be compared as JSON
+export const normalizeStoredMonth = (month: StoredMonth) => mergeStoredMonths(null, month, month);
+
+// --- Registry ---
+
+/**
+ * Three-way merge of a list of definitions by id. Items only one side added are kept,
+ * after the local ones; an item one side deleted stays deleted unless the other side
+ * changed it.
+ */
+const mergeById = <T extends { id: string }>(base: T[] | undefined, local: T[], remote: T[], preferLocal: boolean): T[] => {
+  const byId = (items: T[] | undefined) => new Map((items ?? []).map((item) => [item.id, item]));
+  const b = byId(base);
+  const l = byId(local);
+  const r = byId(remote);
+  const key = (item: T | undefined) => (item ? JSON.stringify(item) : '');
+  const order = [...local.map((item) => item.id), ...remote.map((item) => item.id).filter((id) => !l.has(id))];
+  return order.flatMap((id) => {
+    const item = pick(b.get(id), l.get(id), r.get(id), key, preferLocal);
+    return item ? [item] : [];
+  });
+};
+
+export const mergeRegistries = (base: HabitRegistry | null, local: HabitRegistry, remote: HabitRegistry): HabitRegistry => {
+  const preferLocal = local.lastUpdated >= remote.lastUpdated;
+  return {
+    habits: mergeById(base?.habits, local.habits, remote.habits, preferLocal),
+    metrics: mergeById(base?.metrics, local.metrics, remote.metrics, preferLocal),
+    lastUpdated: Math.max(local.lastUpdated, remote.lastUpdated),
+  };
+};